@@ -0,0 +1,183 @@
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createApp, getOperationShapeError } from './app';
+import { createStorage, toFileName } from './storage';
+
+const project = {
+  project_name: 'App',
+  languages: ['en', 'de'],
+  data: { auth: { title: { en: 'Login', de: 'Anmelden' } } }
+};
+
+let dataDir: string;
+let server: Server;
+let baseUrl: string;
+
+beforeEach(async () => {
+  dataDir = await mkdtemp(path.join(tmpdir(), 'translations-'));
+  server = createServer(createApp(createStorage(dataDir), null));
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterEach(async () => {
+  await new Promise(resolve => server.close(resolve));
+  await rm(dataDir, { recursive: true, force: true });
+});
+
+interface ResponseBody {
+  success: boolean;
+  message?: string;
+  data: { data?: unknown; results?: unknown };
+}
+
+const request = async (method: string, route: string, body?: unknown) => {
+  const response = await fetch(baseUrl + route, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body)
+  });
+  return { status: response.status, body: (await response.json()) as ResponseBody };
+};
+
+describe('POST /projects', () => {
+  it('creates a project and serves it as the default', async () => {
+    expect((await request('POST', '/projects', project)).status).toBe(201);
+
+    const { status, body } = await request('GET', '/translations');
+    expect(status).toBe(200);
+    expect(body.data).toMatchObject(project);
+  });
+
+  it('refuses to overwrite an existing project', async () => {
+    await request('POST', '/projects', project);
+    const { status, body } = await request('POST', '/projects', { ...project, data: {} });
+
+    expect(status).toBe(409);
+    expect(body).toEqual({ success: false, message: 'Project "App" already exists' });
+    expect((await request('GET', '/projects/App')).body.data.data).toEqual(project.data);
+  });
+
+  it('keeps projects whose names differ only in case apart', async () => {
+    await request('POST', '/projects', project);
+    expect((await request('POST', '/projects', { ...project, project_name: 'app', data: {} })).status).toBe(201);
+
+    expect((await request('GET', '/translations?project=App')).body.data.data).toEqual(project.data);
+    expect((await request('GET', '/translations?project=app')).body.data.data).toEqual({});
+    expect(await readdir(dataDir)).toHaveLength(2);
+  });
+
+  it('rejects ambiguous data', async () => {
+    const { status } = await request('POST', '/projects', { ...project, data: { auth: { en: 'x', title: { en: 'y' } } } });
+    expect(status).toBe(400);
+  });
+
+  it.each([
+    ['languages', { ...project, languages: ['en', 7] }],
+    ['metadata', { ...project, metadata: { 'auth.title': { states: { de: 'done' } } } }],
+    ['aliases', { ...project, aliases: { 'login.title': null } }],
+    ['data', { ...project, data: undefined }]
+  ])('rejects a body with malformed %s and stores nothing', async (field, body) => {
+    const { status, body: response } = await request('POST', '/projects', body);
+
+    expect(status).toBe(400);
+    expect(response.message).toContain(field);
+    expect(await readdir(dataDir)).toEqual([]);
+  });
+});
+
+describe('PATCH /translations', () => {
+  beforeEach(async () => {
+    await request('POST', '/projects', project);
+  });
+
+  it('applies valid operations and rejects the ones that do not fit', async () => {
+    const { status, body } = await request('PATCH', '/translations?project=App', {
+      operations: [
+        { id: '1', type: 'setValue', keyPath: 'auth.title', language: 'de', originalValue: 'Anmelden', newValue: 'Login' },
+        { id: '2', type: 'deleteKey', keyPath: 'auth.missing' },
+        { id: '3', type: 'moveKey', fromPath: 'auth.title', toPath: 'auth.heading' }
+      ]
+    });
+
+    expect(status).toBe(200);
+    expect(body.data.results).toEqual([
+      { operationId: '1', status: 'accepted' },
+      { operationId: '2', status: 'rejected', reason: 'Unknown key "auth.missing"' },
+      { operationId: '3', status: 'accepted' }
+    ]);
+    expect((await request('GET', '/translations?project=App')).body.data.data).toEqual({
+      auth: { heading: { en: 'Login', de: 'Login' } }
+    });
+  });
+
+  it('answers 400 without an operations array', async () => {
+    expect((await request('PATCH', '/translations?project=App', {})).status).toBe(400);
+  });
+
+  it.each([
+    [[null], 'operations[0]: must be an object'],
+    [[{ id: '1' }], 'operations[0]: unknown operation type undefined'],
+    [[{ id: '1', type: 'deleteKey' }], 'operations[0]: "keyPath" must be a string'],
+    [[{ type: 'deleteKey', keyPath: 'auth' }], 'operations[0]: "id" must be a non-empty string']
+  ])('answers 400 for malformed operations (%j)', async (operations, message) => {
+    const { status, body } = await request('PATCH', '/translations?project=App', { operations });
+    expect(status).toBe(400);
+    expect(body.message).toBe(message);
+  });
+
+  it('applies nothing when any operation is malformed', async () => {
+    await request('PATCH', '/translations?project=App', {
+      operations: [{ id: '1', type: 'deleteKey', keyPath: 'auth' }, { id: '2', type: 'bogus' }]
+    });
+    expect((await request('GET', '/translations?project=App')).body.data.data).toEqual(project.data);
+  });
+});
+
+describe('DELETE /translations', () => {
+  it('clears keys, metadata and aliases but keeps name and languages', async () => {
+    await request('POST', '/projects', {
+      ...project,
+      metadata: { 'auth.title': { note: 'Heading' } },
+      aliases: { 'login.title': 'auth.title' }
+    });
+
+    expect((await request('DELETE', '/translations?project=App')).status).toBe(200);
+    expect((await request('GET', '/translations?project=App')).body.data).toEqual({
+      project_name: 'App',
+      languages: ['en', 'de'],
+      data: {}
+    });
+  });
+
+  it('only clears the requested project', async () => {
+    await request('POST', '/projects', project);
+    await request('POST', '/projects', { ...project, project_name: 'Other' });
+
+    expect((await request('DELETE', '/translations?project=Other')).status).toBe(200);
+    expect((await request('GET', '/translations?project=Other')).body.data.data).toEqual({});
+    expect((await request('GET', '/translations?project=App')).body.data.data).toEqual(project.data);
+  });
+});
+
+describe('getOperationShapeError', () => {
+  it('checks the fields each operation type needs', () => {
+    expect(getOperationShapeError({ id: '1', type: 'addKey', keyPath: 'a.b', values: { en: 'x' } })).toBeNull();
+    expect(getOperationShapeError({ id: '1', type: 'addKey', keyPath: 'a.b', values: { en: 1 } })).toMatch(/values/);
+    expect(getOperationShapeError({ id: '1', type: 'moveKey', fromPath: 'a', toPath: 'b', merge: 'yes' })).toMatch(/merge/);
+    expect(getOperationShapeError({ id: '1', type: 'setMetadata', keyPath: 'a', metadata: null })).toBeNull();
+    expect(getOperationShapeError({ id: '1', type: 'setMetadata', keyPath: 'a', metadata: 'x' })).toMatch(/metadata/);
+  });
+});
+
+describe('toFileName', () => {
+  it('gives names that differ only in case or punctuation their own files', () => {
+    expect(toFileName('Foo')).not.toBe(toFileName('foo'));
+    expect(toFileName('foo!')).not.toBe(toFileName('foo'));
+    expect(toFileName(' foo ')).toBe(toFileName('foo'));
+  });
+});
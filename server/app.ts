@@ -0,0 +1,264 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { SaveOperationResult, TranslationData, TranslationOperation } from '../src/types/translation';
+import {
+  applyOperation,
+  getMoveKeyError,
+  getNewKeyPathError,
+  getNodeAt,
+  isEntry,
+  listEntries
+} from '../src/lib/translationOperations';
+import { fromPayload, toPayload } from '../src/lib/translationPayload';
+import { projectPayloadSchema } from '../src/lib/schemas';
+import type { Storage, StoredProject } from './storage';
+
+const MAX_BODY_BYTES = 10 * 1024 * 1024;
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+const toTranslationData = (project: StoredProject): TranslationData => ({
+  project: project.project_name,
+  languages: project.languages,
+  translations: fromPayload(project.data, project.languages),
+  metadata: project.metadata,
+  aliases: project.aliases
+});
+
+const toStoredProject = (data: TranslationData): StoredProject => ({
+  project_name: data.project,
+  languages: data.languages,
+  data: toPayload(data.translations),
+  metadata: data.metadata,
+  aliases: data.aliases
+});
+
+// String fields each operation type needs; anything else is malformed, not just rejected
+const REQUIRED_FIELDS: Record<TranslationOperation['type'], string[]> = {
+  setValue: ['keyPath', 'language', 'originalValue', 'newValue'],
+  addKey: ['keyPath'],
+  addNamespace: ['keyPath'],
+  deleteKey: ['keyPath'],
+  moveKey: ['fromPath', 'toPath'],
+  setMetadata: ['keyPath'],
+  removeAlias: ['aliasPath'],
+  addLanguage: ['language'],
+  removeLanguage: ['language']
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Returns what is wrong with the shape of an operation, or null if it is well formed
+export const getOperationShapeError = (op: unknown): string | null => {
+  if (!isPlainObject(op)) return 'must be an object';
+  if (typeof op.id !== 'string' || !op.id) return '"id" must be a non-empty string';
+  if (typeof op.type !== 'string' || !Object.hasOwn(REQUIRED_FIELDS, op.type)) {
+    return `unknown operation type ${JSON.stringify(op.type)}`;
+  }
+  const missing = REQUIRED_FIELDS[op.type as TranslationOperation['type']].find(field => typeof op[field] !== 'string');
+  if (missing) return `"${missing}" must be a string`;
+
+  if (op.type === 'addKey') {
+    if (!isPlainObject(op.values) || !Object.values(op.values).every(value => typeof value === 'string')) {
+      return '"values" must map languages to strings';
+    }
+  }
+  if (op.type === 'moveKey') {
+    const flag = (['merge', 'keepAlias'] as const).find(field => op[field] !== undefined && typeof op[field] !== 'boolean');
+    if (flag) return `"${flag}" must be a boolean`;
+  }
+  if (op.type === 'setMetadata' && op.metadata !== null && !isPlainObject(op.metadata)) {
+    return '"metadata" must be an object or null';
+  }
+  return null;
+};
+
+// Returns why an operation can't be applied to the current data, or null if it can
+export const validateOperation = (data: TranslationData, op: TranslationOperation): string | null => {
+  switch (op.type) {
+    case 'setValue': {
+      const node = getNodeAt(data.translations, op.keyPath);
+      if (!isEntry(node)) return `Unknown key "${op.keyPath}"`;
+      if (!data.languages.includes(op.language)) return `Unknown language "${op.language}"`;
+      return null;
+    }
+    case 'addKey':
+    case 'addNamespace':
+      return getNewKeyPathError(data.translations, op.keyPath);
+    case 'deleteKey':
+      return getNodeAt(data.translations, op.keyPath) ? null : `Unknown key "${op.keyPath}"`;
+    case 'moveKey':
+      return getMoveKeyError(data.translations, op.fromPath, op.toPath, op.merge);
+    case 'setMetadata':
+      return getNodeAt(data.translations, op.keyPath) ? null : `Unknown key "${op.keyPath}"`;
+    case 'removeAlias':
+      return data.aliases?.[op.aliasPath] ? null : `Unknown alias "${op.aliasPath}"`;
+    case 'addLanguage':
+      return data.languages.includes(op.language) ? `Language "${op.language}" already exists` : null;
+    case 'removeLanguage':
+      if (!data.languages.includes(op.language)) return `Unknown language "${op.language}"`;
+      return data.languages.length <= 1 ? 'Cannot remove the last language' : null;
+    default:
+      return 'Unsupported operation';
+  }
+};
+
+const readJsonBody = async (req: IncomingMessage): Promise<unknown> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, 'Request body too large');
+    chunks.push(chunk as Buffer);
+  }
+  if (size === 0) return {};
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new HttpError(400, 'Request body is not valid JSON');
+  }
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+export const createApp = (storage: Storage, defaultProject: string | null) => {
+  // Without ?project=, use the configured default or the first stored project
+  const resolveProject = async (name: string | null) => {
+    if (name) {
+      const project = await storage.readProject(name);
+      if (!project) throw new HttpError(404, `Project "${name}" not found`);
+      return project;
+    }
+    const project = (defaultProject && (await storage.readProject(defaultProject))) || (await storage.listProjects())[0];
+    if (!project) throw new HttpError(404, 'No projects have been created yet');
+    return project;
+  };
+
+  const getTranslations = async (projectName: string | null) => {
+    const project = await resolveProject(projectName);
+    return { status: 200, body: { success: true, data: project } };
+  };
+
+  // Operations are applied in order; a rejected one is skipped and later ones still run
+  const saveTranslations = async (url: URL, body: unknown) => {
+    const operations = (body as { operations?: TranslationOperation[] })?.operations;
+    if (!Array.isArray(operations)) throw new HttpError(400, '"operations" must be an array');
+    operations.forEach((op, index) => {
+      const shapeError = getOperationShapeError(op);
+      if (shapeError) throw new HttpError(400, `operations[${index}]: ${shapeError}`);
+    });
+
+    const project = await resolveProject(url.searchParams.get('project'));
+    let data = toTranslationData(project);
+    const results: SaveOperationResult[] = operations.map(op => {
+      const reason = validateOperation(data, op);
+      if (reason) return { operationId: op.id, status: 'rejected', reason };
+      data = applyOperation(data, op);
+      return { operationId: op.id, status: 'accepted' };
+    });
+
+    await storage.writeProject(toStoredProject(data));
+    return { status: 200, body: { success: true, data: { results } } };
+  };
+
+  const deleteTranslations = async (url: URL) => {
+    const project = await resolveProject(url.searchParams.get('project'));
+    // Metadata and aliases describe keys, so they go too
+    await storage.writeProject({ project_name: project.project_name, languages: project.languages, data: {} });
+    return { status: 200, body: { success: true, data: { project_name: project.project_name } } };
+  };
+
+  const listProjects = async () => {
+    const projects = await storage.listProjects();
+    return {
+      status: 200,
+      body: {
+        success: true,
+        data: projects.map(p => ({
+          project_name: p.project_name,
+          languages: p.languages,
+          key_count: listEntries(toTranslationData(p).translations).length
+        }))
+      }
+    };
+  };
+
+  // The body is checked with the schema the dashboard reads projects with, so
+  // nothing is stored that a later GET couldn't serve
+  const createProject = async (body: unknown) => {
+    const parsed = projectPayloadSchema.safeParse(body);
+    if (!parsed.success) {
+      const issues = parsed.error.issues.map(issue => `${issue.path.join('.') || 'body'}: ${issue.message}`);
+      throw new HttpError(400, `Invalid project: ${issues.join('; ')}`);
+    }
+    const project = parsed.data;
+    const name = project.project_name.trim();
+    if (!name) throw new HttpError(400, '"project_name" is required');
+    if (await storage.readProject(name)) {
+      throw new HttpError(409, `Project "${name}" already exists`);
+    }
+    const stored: StoredProject = {
+      project_name: name,
+      languages: project.languages,
+      data: project.data,
+      metadata: project.metadata,
+      aliases: project.aliases
+    };
+    await storage.writeProject(stored);
+    return { status: 201, body: { success: true, data: stored } };
+  };
+
+  const deleteProject = async (name: string) => {
+    if (!(await storage.readProject(name))) throw new HttpError(404, `Project "${name}" not found`);
+    await storage.deleteProject(name);
+    return { status: 200, body: { success: true, data: { project_name: name } } };
+  };
+
+  const route = async (req: IncomingMessage, url: URL) => {
+    const pathname = url.pathname.replace(/\/+$/, '') || '/';
+    const projectMatch = pathname.match(/^\/projects\/([^/]+)$/);
+
+    if (pathname === '/translations') {
+      if (req.method === 'GET') return getTranslations(url.searchParams.get('project'));
+      if (req.method === 'PATCH') return saveTranslations(url, await readJsonBody(req));
+      if (req.method === 'DELETE') return deleteTranslations(url);
+    } else if (pathname === '/projects') {
+      if (req.method === 'GET') return listProjects();
+      if (req.method === 'POST') return createProject(await readJsonBody(req));
+    } else if (projectMatch) {
+      const name = decodeURIComponent(projectMatch[1]);
+      if (req.method === 'GET') return getTranslations(name);
+      if (req.method === 'DELETE') return deleteProject(name);
+    } else {
+      throw new HttpError(404, `No route for ${pathname}`);
+    }
+    throw new HttpError(405, `${req.method} is not allowed on ${pathname}`);
+  };
+
+  return async (req: IncomingMessage, res: ServerResponse) => {
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PATCH, DELETE, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204).end();
+      return;
+    }
+
+    try {
+      const { status, body } = await route(req, new URL(req.url ?? '/', 'http://localhost'));
+      sendJson(res, status, body);
+    } catch (err) {
+      const status = err instanceof HttpError ? err.status : 500;
+      const message = err instanceof Error ? err.message : 'Internal server error';
+      if (status === 500) console.error(err);
+      sendJson(res, status, { success: false, message });
+    }
+  };
+};
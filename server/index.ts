@@ -0,0 +1,22 @@
+import { createServer } from 'node:http';
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { createApp } from './app';
+import { createStorage, StoredProject } from './storage';
+
+const serverDir = path.dirname(fileURLToPath(import.meta.url));
+const port = Number(process.env.PORT) || 4000;
+const dataDir = path.resolve(process.env.DATA_DIR ?? path.join(serverDir, 'data'));
+const defaultProject = process.env.DEFAULT_PROJECT || null;
+const storage = createStorage(dataDir);
+
+// Start from the bundled sample project the first time the data dir is empty
+if ((await storage.listProjects()).length === 0) {
+  const seed = await readFile(path.join(serverDir, 'seed', 'default.json'), 'utf8');
+  await storage.writeProject(JSON.parse(seed) as StoredProject);
+}
+
+createServer(createApp(storage, defaultProject)).listen(port, () => {
+  console.log(`Translation server listening on http://localhost:${port} (data: ${dataDir})`);
+});
@@ -0,0 +1,63 @@
+import { createHash } from 'node:crypto';
+import { mkdir, readdir, readFile, rm, writeFile, rename } from 'node:fs/promises';
+import path from 'node:path';
+import type { TranslationData, TranslationPayloadNode } from '../src/types/translation';
+
+// On-disk shape of a project; mirrors the payload GET /translations returns
+export interface StoredProject {
+  project_name: string;
+  languages: string[];
+  data: TranslationPayloadNode;
+  metadata?: TranslationData['metadata'];
+  aliases?: TranslationData['aliases'];
+}
+
+const FILE_EXTENSION = '.json';
+
+const slugify = (projectName: string) =>
+  projectName.trim().toLowerCase().replace(/[^a-z0-9_-]+/g, '-').replace(/^-+|-+$/g, '') || 'default';
+
+// Project names become file names, so keep them to a safe character set. The
+// slug alone loses case and punctuation ("Foo" and "foo!" both give "foo"), so a
+// hash of the exact name keeps every project in its own file, even on
+// case-insensitive file systems.
+export const toFileName = (projectName: string) =>
+  `${slugify(projectName)}-${createHash('sha256').update(projectName.trim()).digest('hex').slice(0, 12)}`;
+
+export const createStorage = (dataDir: string) => {
+  const filePath = (projectName: string) => path.join(dataDir, toFileName(projectName) + FILE_EXTENSION);
+
+  const listProjects = async (): Promise<StoredProject[]> => {
+    await mkdir(dataDir, { recursive: true });
+    const files = (await readdir(dataDir)).filter(f => f.endsWith(FILE_EXTENSION)).sort();
+    return Promise.all(
+      files.map(async f => JSON.parse(await readFile(path.join(dataDir, f), 'utf8')) as StoredProject)
+    );
+  };
+
+  const readProject = async (projectName: string): Promise<StoredProject | null> => {
+    try {
+      return JSON.parse(await readFile(filePath(projectName), 'utf8')) as StoredProject;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw err;
+    }
+  };
+
+  // Write to a temp file first so a crash never leaves a half-written project
+  const writeProject = async (project: StoredProject) => {
+    await mkdir(dataDir, { recursive: true });
+    const target = filePath(project.project_name);
+    const temp = `${target}.${process.pid}.tmp`;
+    await writeFile(temp, JSON.stringify(project, null, 2) + '\n', 'utf8');
+    await rename(temp, target);
+  };
+
+  const deleteProject = async (projectName: string) => {
+    await rm(filePath(projectName), { force: true });
+  };
+
+  return { listProjects, readProject, writeProject, deleteProject };
+};
+
+export type Storage = ReturnType<typeof createStorage>;
@@ -5,8 +5,20 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Index from "./pages/Index";
 import NotFound from "./pages/NotFound";
+import { isRetryableError } from "./services/apiClient";
 
-const queryClient = new QueryClient();
+const MAX_RETRIES = 3;
+
+const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      retry: (failureCount, error) =>
+        failureCount < MAX_RETRIES && isRetryableError(error),
+      // 1s, 2s, 4s, ... capped at 30s
+      retryDelay: (attempt) => Math.min(1000 * 2 ** attempt, 30_000),
+    },
+  },
+});
 
 const App = () => (
   <QueryClientProvider client={queryClient}>
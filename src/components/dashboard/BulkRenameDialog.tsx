@@ -0,0 +1,260 @@
+import { useDeferredValue, useMemo, useState } from "react";
+import { AlertTriangle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { cn } from "@/lib/utils";
+import { TranslationData } from "@/types/translation";
+import {
+  KeyPatternMode,
+  compileKeyPattern,
+  planBulkRename,
+} from "@/lib/bulkRename";
+
+interface BulkRenameDialogProps {
+  open: boolean;
+  data: TranslationData;
+  onOpenChange: (open: boolean) => void;
+  onApply: (pattern: RegExp, replacement: string, keepAliases: boolean) => void;
+}
+
+const MAX_ROWS = 500;
+
+const HINTS: Record<KeyPatternMode, string> = {
+  regex:
+    "Replaces every match in each key path. Use $1, $2... or $<name> for groups.",
+  glob: "Matches whole key paths. * stays within one segment, ** spans segments, ? is one character. Use $1, $2... for each wildcard.",
+};
+
+const BulkRenameForm = ({
+  data,
+  onClose,
+  onApply,
+}: {
+  data: TranslationData;
+  onClose: () => void;
+  onApply: (pattern: RegExp, replacement: string, keepAliases: boolean) => void;
+}) => {
+  const [mode, setMode] = useState<KeyPatternMode>("regex");
+  const [pattern, setPattern] = useState("");
+  const [replacement, setReplacement] = useState("");
+  const [keepAliases, setKeepAliases] = useState(false);
+
+  // Planning walks every key, so typing stays ahead of the preview
+  const deferredPattern = useDeferredValue(pattern);
+  const deferredReplacement = useDeferredValue(replacement);
+
+  const compiled = useMemo(() => {
+    if (!deferredPattern) return { regex: null, error: null };
+    try {
+      return { regex: compileKeyPattern(deferredPattern, mode), error: null };
+    } catch (e) {
+      return {
+        regex: null,
+        error: e instanceof Error ? e.message : "Invalid pattern",
+      };
+    }
+  }, [deferredPattern, mode]);
+
+  const plan = useMemo(
+    () =>
+      compiled.regex
+        ? planBulkRename(data, compiled.regex, deferredReplacement)
+        : null,
+    [data, compiled.regex, deferredReplacement]
+  );
+
+  const conflictCount = plan?.renames.filter((r) => r.error).length ?? 0;
+  const renameCount = (plan?.renames.length ?? 0) - conflictCount;
+  const isStale =
+    pattern !== deferredPattern || replacement !== deferredReplacement;
+
+  const submit = () => {
+    if (!compiled.regex || renameCount === 0 || isStale) return;
+    onApply(compiled.regex, replacement, keepAliases);
+    onClose();
+  };
+
+  return (
+    <DialogContent className="sm:max-w-4xl bg-card">
+      <DialogHeader>
+        <DialogTitle>Rename keys by pattern</DialogTitle>
+        <DialogDescription>
+          Every key path that matches is renamed in one step you can undo.
+          Keys with conflicts are left as they are.
+        </DialogDescription>
+      </DialogHeader>
+
+      <form
+        className="space-y-3"
+        onSubmit={(e) => {
+          e.preventDefault();
+          submit();
+        }}
+      >
+        <div className="flex items-center gap-2">
+          {(["regex", "glob"] as const).map((option) => (
+            <Button
+              key={option}
+              type="button"
+              size="sm"
+              variant={mode === option ? "default" : "outline"}
+              className="h-8 text-xs"
+              onClick={() => setMode(option)}
+            >
+              {option === "regex" ? "Regex" : "Glob"}
+            </Button>
+          ))}
+        </div>
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Find</label>
+            <Input
+              autoFocus
+              value={pattern}
+              onChange={(e) => setPattern(e.target.value)}
+              placeholder={
+                mode === "regex" ? "^auth\\.(\\w+)_label$" : "auth.*_label"
+              }
+              className="font-mono"
+            />
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Replace with</label>
+            <Input
+              value={replacement}
+              onChange={(e) => setReplacement(e.target.value)}
+              placeholder="account.labels.$1"
+              className="font-mono"
+            />
+          </div>
+        </div>
+        <p className="text-xs text-muted-foreground">{HINTS[mode]}</p>
+        {compiled.error && (
+          <p className="text-xs text-destructive">{compiled.error}</p>
+        )}
+        <label className="flex items-center gap-2 text-sm">
+          <Checkbox
+            checked={keepAliases}
+            onCheckedChange={(checked) => setKeepAliases(checked === true)}
+          />
+          Keep the old paths as aliases
+        </label>
+      </form>
+
+      {plan && (
+        <>
+          <div className="flex items-center gap-2 flex-wrap">
+            <Badge variant="secondary">
+              {renameCount} key{renameCount !== 1 ? "s" : ""} to rename
+            </Badge>
+            {conflictCount > 0 && (
+              <Badge variant="destructive">{conflictCount} conflicts</Badge>
+            )}
+            {plan.removedNamespaces.length > 0 && (
+              <Badge variant="outline">
+                {plan.removedNamespaces.length} empty namespace
+                {plan.removedNamespaces.length !== 1 ? "s" : ""} removed
+              </Badge>
+            )}
+          </div>
+
+          <div
+            className={cn(
+              "border border-border rounded-lg max-h-96 overflow-auto scrollbar-thin",
+              isStale && "opacity-60"
+            )}
+          >
+            {plan.renames.length === 0 ? (
+              <p className="p-6 text-center text-sm text-muted-foreground">
+                No key path matches.
+              </p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead className="sticky top-0 bg-table-header">
+                  <tr className="text-left text-muted-foreground">
+                    <th className="px-3 py-2">Current path</th>
+                    <th className="px-3 py-2">New path</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {plan.renames.slice(0, MAX_ROWS).map((rename) => (
+                    <tr
+                      key={rename.fromPath}
+                      className={cn(
+                        "border-t border-table-border align-top",
+                        rename.error && "bg-destructive/5"
+                      )}
+                    >
+                      <td className="px-3 py-2 font-mono text-xs break-all">
+                        {rename.fromPath}
+                      </td>
+                      <td className="px-3 py-2 font-mono text-xs break-all">
+                        <span
+                          className={cn(rename.error && "text-destructive")}
+                        >
+                          {rename.toPath || "—"}
+                        </span>
+                        {rename.error && (
+                          <div className="flex items-center gap-1 mt-1 font-sans text-destructive">
+                            <AlertTriangle className="w-3 h-3 flex-shrink-0" />
+                            {rename.error}
+                          </div>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                  {plan.renames.length > MAX_ROWS && (
+                    <tr className="border-t border-table-border">
+                      <td
+                        colSpan={2}
+                        className="px-3 py-2 text-xs text-muted-foreground"
+                      >
+                        …and {plan.renames.length - MAX_ROWS} more
+                      </td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </>
+      )}
+
+      <DialogFooter>
+        <Button variant="outline" onClick={onClose}>
+          Cancel
+        </Button>
+        <Button onClick={submit} disabled={renameCount === 0 || isStale}>
+          Rename {renameCount} key{renameCount !== 1 ? "s" : ""}
+        </Button>
+      </DialogFooter>
+    </DialogContent>
+  );
+};
+
+export const BulkRenameDialog = ({
+  open,
+  data,
+  onOpenChange,
+  onApply,
+}: BulkRenameDialogProps) => (
+  <Dialog open={open} onOpenChange={onOpenChange}>
+    {open && (
+      <BulkRenameForm
+        data={data}
+        onClose={() => onOpenChange(false)}
+        onApply={onApply}
+      />
+    )}
+  </Dialog>
+);
@@ -0,0 +1,116 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { getFormats } from "@/lib/formats";
+import {
+  BundleOptions,
+  DEFAULT_BUNDLE_OPTIONS,
+  MANIFEST_FILE_NAME,
+} from "@/lib/formats/bundle";
+
+interface BundleExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onExport: (options: BundleOptions) => void;
+}
+
+export const BundleExportDialog = ({
+  open,
+  onOpenChange,
+  onExport,
+}: BundleExportDialogProps) => {
+  const [options, setOptions] = useState<BundleOptions>(DEFAULT_BUNDLE_OPTIONS);
+  const formats = getFormats().filter(
+    (format) => format.export?.scope === "language"
+  );
+  const selected = formats.find((format) => format.id === options.formatId);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md bg-card">
+        <DialogHeader>
+          <DialogTitle>Export bundle</DialogTitle>
+          <DialogDescription>
+            Downloads a zip with one file per language, ready to deploy, plus a{" "}
+            <code>{MANIFEST_FILE_NAME}</code> with key counts, completeness and
+            content hashes.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Format</label>
+            <Select
+              value={options.formatId}
+              onValueChange={(formatId) =>
+                setOptions((prev) => ({ ...prev, formatId }))
+              }
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {formats.map((format) => (
+                  <SelectItem key={format.id} value={format.id}>
+                    {format.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <label className="flex items-center gap-2 text-sm">
+            <Checkbox
+              checked={options.splitNamespaces}
+              onCheckedChange={(checked) =>
+                setOptions((prev) => ({
+                  ...prev,
+                  splitNamespaces: checked === true,
+                }))
+              }
+            />
+            One file per top-level namespace
+          </label>
+          <p className="text-xs text-muted-foreground">
+            Layout:{" "}
+            <code>
+              {options.splitNamespaces
+                ? `xx/common${selected?.extensions[0] ?? ""}`
+                : selected?.export?.fileName(
+                    { project: "project", languages: ["xx"], translations: {} },
+                    "xx"
+                  )}
+            </code>
+          </p>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => {
+              onExport(options);
+              onOpenChange(false);
+            }}
+            disabled={!selected}
+          >
+            Download zip
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -2,9 +2,56 @@ import { useState, useCallback, useEffect } from "react";
 import { Header } from "./Header";
 import { TreeView } from "./TreeView";
 import { TranslationEditor } from "./TranslationEditor";
-import { useTranslations } from "@/hooks/useTranslations";
+import { MoveOptions, useTranslations } from "@/hooks/useTranslations";
+import { useTranslationIndex } from "@/hooks/useTranslationIndex";
 import { useTheme } from "@/hooks/useTheme";
-import { Loader2 } from "lucide-react";
+import { useApiEnvironment } from "@/hooks/useApiEnvironment";
+import { ApiEnvironment, API_ENVIRONMENTS } from "@/services/apiClient";
+import { describeOperation } from "@/lib/translationOperations";
+import { downloadFile } from "@/lib/download";
+import {
+  ParsedXliff,
+  XliffExportOptions,
+  parseXliff,
+  planXliffImport,
+  serializeXliff,
+} from "@/lib/formats/xliff";
+import { ParsedPo, parsePo, planPoImport } from "@/lib/formats/gettext";
+import { detectLanguageFromFileName } from "@/lib/formats/localeFiles";
+import {
+  DEFAULT_MOBILE_SEPARATORS,
+  MobileExportOptions,
+  findPlatformKeyCollisions,
+} from "@/lib/formats/platformKeys";
+import {
+  MobileImportFile,
+  buildMobileBundle,
+  planMobileImport,
+  readMobileUpload,
+} from "@/lib/formats/mobileBundle";
+import { BundleOptions, buildLocaleBundle } from "@/lib/formats/bundle";
+import {
+  CellDiff,
+  SpreadsheetDiff,
+  diffSpreadsheet,
+  readSpreadsheetFile,
+} from "@/lib/formats/spreadsheet";
+import { ExportSettings, getFormat } from "@/lib/formats";
+import {
+  ALIASES_FILE_NAME,
+  applyAliasExport,
+  hasActiveAliases,
+  serializeRedirectMap,
+} from "@/lib/formats/aliases";
+import { ImportWizard } from "./ImportWizard";
+import { SpreadsheetImportDialog } from "./SpreadsheetImportDialog";
+import { LoadErrorDetails } from "./LoadErrorDetails";
+import { KeyAction, KeyActionDialog } from "./KeyActionDialog";
+import { BulkRenameDialog } from "./BulkRenameDialog";
+import { Loader2, AlertTriangle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { TranslationData } from "@/types/translation";
 import { toast } from "sonner";
 import {
   AlertDialog,
@@ -16,29 +63,71 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
 
 export const Dashboard = () => {
+  const { environment, setEnvironment } = useApiEnvironment();
   const {
     data,
     loading,
     error,
+    operations,
     unsavedChanges,
     hasUnsavedChanges,
+    isLocalProject,
     updateTranslation,
+    bulkUpdate,
+    endEditGroup,
     addLanguage,
     removeLanguage,
     saveChanges,
+    isSaving,
+    deleteAllTranslations,
+    isDeleting,
     discardChanges,
-    buildTree,
-    exportToJson,
     renameKey,
-  } = useTranslations();
+    moveKey,
+    bulkRenameKeys,
+    removeAlias,
+    createKey,
+    createNamespace,
+    duplicateKey,
+    deleteKey,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+    undoLabel,
+    redoLabel,
+    refetch,
+    importDataset,
+  } = useTranslations(environment);
 
   const { theme, toggleTheme } = useTheme();
   const [selectedPath, setSelectedPath] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState("");
+  const {
+    tree,
+    progress: indexProgress,
+    stats,
+    searchMatches,
+    isSearching,
+  } = useTranslationIndex(data, searchQuery);
   const [missingFilter, setMissingFilter] = useState<string[]>([]);
   const [showDiscardDialog, setShowDiscardDialog] = useState(false);
+  const [keyAction, setKeyAction] = useState<KeyAction | null>(null);
+  const [showBulkRename, setShowBulkRename] = useState(false);
+  const [showImportDialog, setShowImportDialog] = useState(false);
+  const [spreadsheetImport, setSpreadsheetImport] = useState<{
+    fileName: string;
+    diff: SpreadsheetDiff;
+  } | null>(null);
 
   // Warn before leaving with unsaved changes
   useEffect(() => {
@@ -53,36 +142,363 @@ export const Dashboard = () => {
     return () => window.removeEventListener("beforeunload", handleBeforeUnload);
   }, [hasUnsavedChanges]);
 
-  const handleExport = useCallback(
-    (language?: string) => {
-      const json = exportToJson(language);
-      if (!json) return;
+  const handleUndo = useCallback(() => {
+    const label = undo();
+    if (label) toast.info(`Undid: ${label}`);
+  }, [undo]);
 
-      const fileName = language
-        ? `translations-${language}.json`
-        : "translations-all.json";
+  const handleRedo = useCallback(() => {
+    const label = redo();
+    if (label) toast.info(`Redid: ${label}`);
+  }, [redo]);
+
+  // Ctrl+Z / Ctrl+Shift+Z, leaving the JSON console's own text undo alone
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      if (e.target instanceof HTMLTextAreaElement) return;
 
-      const blob = new Blob([JSON.stringify(json, null, 2)], {
-        type: "application/json",
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === "z" && e.shiftKey) || key === "y") {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [handleUndo, handleRedo]);
+
+  const handleExportFormat = useCallback(
+    async (
+      formatId: string,
+      language: string | undefined,
+      settings: ExportSettings
+    ) => {
+      const exporter = getFormat(formatId)?.export;
+      if (!data || !exporter) return;
+      const exported = applyAliasExport(data, settings.aliases);
+
+      // Per-language formats without a language mean "every language"
+      const targets =
+        exporter.scope === "project"
+          ? [data.languages[0]]
+          : language
+            ? [language]
+            : data.languages;
+      // Everything is serialized before the first download, so a format that
+      // can't hold this project (e.g. colliding ARB names) exports nothing
+      let files: { fileName: string; content: BlobPart }[];
+      try {
+        files = targets.map((lang) => ({
+          fileName: exporter.fileName(exported, lang),
+          content: exporter.serialize(exported, lang, settings),
+        }));
+      } catch (e) {
+        toast.error(e instanceof Error ? e.message : "Could not export");
+        return;
+      }
+      const fileNames = files.map(({ fileName, content }) => {
+        downloadFile(fileName, content, getFormat(formatId)!.mimeType);
+        return fileName;
       });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement("a");
-      a.href = url;
-      a.download = fileName;
-      a.click();
-      URL.revokeObjectURL(url);
+      if (settings.aliases === "redirects" && hasActiveAliases(data)) {
+        downloadFile(
+          ALIASES_FILE_NAME,
+          serializeRedirectMap(data),
+          "application/json"
+        );
+        fileNames.push(ALIASES_FILE_NAME);
+      }
+      toast.success(
+        fileNames.length === 1
+          ? `Exported ${fileNames[0]}`
+          : `Exported ${fileNames.length} files`
+      );
+    },
+    [data]
+  );
+
+  const handleExportBundle = useCallback(
+    async (options: BundleOptions, settings: ExportSettings) => {
+      if (!data) return;
+
+      try {
+        const { blob, manifest } = await buildLocaleBundle(
+          data,
+          options,
+          settings
+        );
+        const fileName = `${data.project || "translations"}-${
+          manifest.hash.slice(0, 8)
+        }.zip`;
+        downloadFile(fileName, blob, "application/zip");
+        toast.success(`Exported ${fileName}`, {
+          description: `${manifest.languages[data.languages[0]]?.files.length ?? 0} file(s) per language`,
+        });
+      } catch (e) {
+        toast.error(e instanceof Error ? e.message : "Could not build bundle");
+      }
+    },
+    [data]
+  );
+
+  const handleExportXliff = useCallback(
+    (options: XliffExportOptions) => {
+      if (!data) return;
+
+      const fileName = `${data.project || "translations"}-${
+        options.sourceLanguage
+      }-${options.targetLanguage}.xlf`;
+      downloadFile(fileName, serializeXliff(data, options), "application/xliff+xml");
+      toast.success(`Exported ${fileName}`);
+    },
+    [data]
+  );
+
+  const handleImportXliff = useCallback(
+    async (file: File) => {
+      if (!data) return;
+
+      let xliff: ParsedXliff;
+      try {
+        xliff = parseXliff(await file.text());
+      } catch (e) {
+        toast.error(e instanceof Error ? e.message : "Could not read XLIFF file");
+        return;
+      }
+
+      const language = xliff.targetLanguage;
+      if (!data.languages.includes(language)) {
+        toast.error(
+          `Target language "${language || "?"}" is not in this project. Add it first.`
+        );
+        return;
+      }
+
+      const plan = planXliffImport(data, xliff);
+      if (plan.updates.length + plan.metadataUpdates.length === 0) {
+        toast.info("No changes found in the XLIFF file");
+        return;
+      }
+
+      bulkUpdate(
+        plan.updates,
+        `Import XLIFF (${language.toUpperCase()})`,
+        plan.metadataUpdates
+      );
+      toast.success(
+        `Applied ${plan.updates.length} translation${
+          plan.updates.length !== 1 ? "s" : ""
+        } from ${file.name}`,
+        plan.unknownKeys.length > 0
+          ? {
+              description: `${plan.unknownKeys.length} unknown key(s) skipped`,
+            }
+          : undefined
+      );
+    },
+    [data, bulkUpdate]
+  );
+
+  const handleImportPo = useCallback(
+    async (file: File) => {
+      if (!data) return;
+
+      let po: ParsedPo;
+      try {
+        po = parsePo(await file.text());
+      } catch (e) {
+        toast.error(e instanceof Error ? e.message : "Could not read PO file");
+        return;
+      }
+
+      const language = po.language ?? detectLanguageFromFileName(file.name);
+      if (!language || !data.languages.includes(language)) {
+        toast.error(
+          `Language "${language || "?"}" is not in this project. Add it first.`
+        );
+        return;
+      }
+
+      const plan = planPoImport(data, po, language);
+      if (plan.updates.length + plan.metadataUpdates.length === 0) {
+        toast.info("No changes found in the PO file");
+        return;
+      }
+
+      bulkUpdate(
+        plan.updates,
+        `Import PO (${language.toUpperCase()})`,
+        plan.metadataUpdates
+      );
+      toast.success(
+        `Applied ${plan.updates.length} translation${
+          plan.updates.length !== 1 ? "s" : ""
+        } from ${file.name}`,
+        plan.unknownKeys.length > 0
+          ? {
+              description: `${plan.unknownKeys.length} unknown key(s) skipped`,
+            }
+          : undefined
+      );
+    },
+    [data, bulkUpdate]
+  );
+
+  const handleExportMobile = useCallback(
+    async (options: MobileExportOptions, settings: ExportSettings) => {
+      if (!data) return;
 
+      const fileName = `${data.project || "translations"}-${options.platform}.zip`;
+      let bundle: Blob;
+      try {
+        bundle = await buildMobileBundle(data, options, settings.aliases);
+      } catch (e) {
+        toast.error(e instanceof Error ? e.message : "Could not build the export");
+        return;
+      }
+      downloadFile(fileName, bundle, "application/zip");
       toast.success(`Exported ${fileName}`);
     },
-    [exportToJson]
+    [data]
+  );
+
+  // Checked against the data as exported, so duplicated alias keys count too
+  const getMobileCollisions = useCallback(
+    (options: MobileExportOptions, settings: ExportSettings) =>
+      data
+        ? findPlatformKeyCollisions(
+            applyAliasExport(data, settings.aliases),
+            options.separator,
+            options.platform
+          )
+        : [],
+    [data]
+  );
+
+  const handleImportMobile = useCallback(
+    async (file: File, options: MobileExportOptions) => {
+      if (!data) return;
+
+      let files: MobileImportFile[];
+      try {
+        files = await readMobileUpload(file, data.languages[0]);
+      } catch (e) {
+        toast.error(e instanceof Error ? e.message : "Could not read strings file");
+        return;
+      }
+
+      const missing = [...new Set(files.map((f) => f.language))].filter(
+        (language) => !data.languages.includes(language)
+      );
+      const plans = files
+        .filter((f) => data.languages.includes(f.language))
+        .map((f) =>
+          planMobileImport(
+            data,
+            f,
+            // Key names only map back with the separator they were exported with
+            f.platform === options.platform
+              ? options.separator
+              : DEFAULT_MOBILE_SEPARATORS[f.platform]
+          )
+        );
+      const updates = plans.flatMap((plan) => plan.updates);
+      const metadataUpdates = plans.flatMap((plan) => plan.metadataUpdates);
+      const unknownKeys = new Set(plans.flatMap((plan) => plan.unknownKeys));
+
+      if (updates.length + metadataUpdates.length === 0) {
+        toast.info("No changes found in the strings files", {
+          description:
+            missing.length > 0
+              ? `Languages not in this project: ${missing.join(", ")}`
+              : undefined,
+        });
+        return;
+      }
+
+      bulkUpdate(updates, `Import ${file.name}`, metadataUpdates);
+      toast.success(
+        `Applied ${updates.length} translation${
+          updates.length !== 1 ? "s" : ""
+        } from ${file.name}`,
+        unknownKeys.size > 0 || missing.length > 0
+          ? {
+              description: [
+                unknownKeys.size > 0 && `${unknownKeys.size} unknown key(s) skipped`,
+                missing.length > 0 && `skipped languages: ${missing.join(", ")}`,
+              ]
+                .filter(Boolean)
+                .join("; "),
+            }
+          : undefined
+      );
+    },
+    [data, bulkUpdate]
+  );
+
+  const handleImportSpreadsheet = useCallback(
+    async (file: File) => {
+      if (!data) return;
+
+      try {
+        const rows = await readSpreadsheetFile(file);
+        setSpreadsheetImport({
+          fileName: file.name,
+          diff: diffSpreadsheet(data, rows, unsavedChanges),
+        });
+      } catch (e) {
+        toast.error(e instanceof Error ? e.message : "Could not read spreadsheet");
+      }
+    },
+    [data, unsavedChanges]
+  );
+
+  const handleApplySpreadsheet = useCallback(
+    (cells: CellDiff[]) => {
+      if (!spreadsheetImport) return;
+
+      bulkUpdate(
+        cells.map(({ keyPath, language, incoming }) => ({
+          keyPath,
+          language,
+          value: incoming,
+        })),
+        `Import ${spreadsheetImport.fileName}`
+      );
+      setSpreadsheetImport(null);
+      toast.success(
+        `Applied ${cells.length} change${cells.length !== 1 ? "s" : ""} from ${
+          spreadsheetImport.fileName
+        }`
+      );
+    },
+    [spreadsheetImport, bulkUpdate]
   );
 
   const handleSave = useCallback(async () => {
-    const success = await saveChanges();
-    if (success) {
+    const outcome = await saveChanges();
+
+    if (!outcome) {
+      toast.error("Failed to save changes");
+    } else if (outcome.failed.length === 0) {
       toast.success("Changes saved successfully");
     } else {
-      toast.error("Failed to save changes");
+      toast.warning(
+        `Saved ${outcome.saved} change${outcome.saved !== 1 ? "s" : ""}, ${
+          outcome.failed.length
+        } failed`,
+        {
+          description: outcome.failed
+            .slice(0, 5)
+            .map((f) => `${describeOperation(f.operation)}: ${f.reason}`)
+            .join("\n"),
+        }
+      );
     }
   }, [saveChanges]);
 
@@ -98,7 +514,10 @@ export const Dashboard = () => {
 
   const handleAddLanguage = useCallback(
     (code: string) => {
-      addLanguage(code);
+      if (!addLanguage(code)) {
+        toast.error(`${code.toUpperCase()} is already in the project`);
+        return;
+      }
       toast.success(`Added language: ${code.toUpperCase()}`);
     },
     [addLanguage]
@@ -106,19 +525,187 @@ export const Dashboard = () => {
 
   const handleRemoveLanguage = useCallback(
     (code: string) => {
-      removeLanguage(code);
+      if (!removeLanguage(code)) {
+        toast.error(`Could not remove ${code.toUpperCase()}`);
+        return;
+      }
       toast.success(`Removed language: ${code.toUpperCase()}`);
     },
     [removeLanguage]
   );
 
+  const handleEnvironmentChange = useCallback(
+    (next: ApiEnvironment) => {
+      if (next === environment) return;
+      if (hasUnsavedChanges) {
+        toast.error("Save or discard your changes before switching environments");
+        return;
+      }
+      setEnvironment(next);
+      // The other backend has its own project, so nothing selected here applies
+      setSelectedPath(null);
+      toast.info(`Switched to ${API_ENVIRONMENTS[next].label}`);
+    },
+    [environment, hasUnsavedChanges, setEnvironment]
+  );
+
+  const handleDeleteTranslations = useCallback(async () => {
+    if (await deleteAllTranslations()) {
+      toast.success("Translations key are deleted successfully");
+    } else {
+      toast.error("There is an issue in deleting the data");
+    }
+  }, [deleteAllTranslations]);
+
+  const handleOpenImport = useCallback(() => {
+    if (hasUnsavedChanges) {
+      toast.error("Save or discard your changes before importing a new project");
+      return;
+    }
+    setShowImportDialog(true);
+  }, [hasUnsavedChanges]);
+
+  const handleImport = useCallback(
+    async (dataset: TranslationData) => {
+      const outcome = await importDataset(dataset);
+      if (outcome.status === "failed") {
+        toast.error(outcome.message);
+        return false;
+      }
+      setShowImportDialog(false);
+      setSelectedPath(null);
+      if (outcome.status === "local") {
+        toast.warning(`Imported project "${dataset.project}" locally`, {
+          description: "The server could not be reached. Save to create the project there.",
+        });
+      } else {
+        toast.success(`Imported project "${dataset.project}"`);
+      }
+      return true;
+    },
+    [importDataset]
+  );
+
   const handleRenameKey = useCallback(
-    (oldPath: string, newKey: string) => {
-      renameKey(oldPath, newKey);
+    (oldPath: string, newKey: string, options: MoveOptions) => {
+      const newPath = [...oldPath.split(".").slice(0, -1), newKey].join(".");
+      if (!renameKey(oldPath, newKey, options)) {
+        toast.error(`Could not rename ${oldPath} to ${newPath}`);
+        return;
+      }
+      setSelectedPath((current) =>
+        current === oldPath || current?.startsWith(oldPath + ".")
+          ? newPath + current.slice(oldPath.length)
+          : current
+      );
+      toast.success(
+        options.merge
+          ? `Merged ${oldPath} into ${newPath}`
+          : `Renamed ${oldPath} to ${newPath}`,
+        options.keepAlias
+          ? { description: `${oldPath} stays available as an alias` }
+          : undefined
+      );
     },
     [renameKey]
   );
 
+  const handleCreateKey = useCallback(
+    (keyPath: string) => {
+      if (!createKey(keyPath)) {
+        toast.error(`Could not add key ${keyPath}`);
+        return;
+      }
+      setSelectedPath(keyPath);
+      toast.success(`Added key ${keyPath}`);
+    },
+    [createKey]
+  );
+
+  const handleCreateNamespace = useCallback(
+    (keyPath: string) => {
+      if (!createNamespace(keyPath)) {
+        toast.error(`Could not add namespace ${keyPath}`);
+        return;
+      }
+      setSelectedPath(keyPath);
+      toast.success(`Added namespace ${keyPath}`);
+    },
+    [createNamespace]
+  );
+
+  const handleDuplicateKey = useCallback(
+    (fromPath: string, toPath: string) => {
+      if (!duplicateKey(fromPath, toPath)) {
+        toast.error(`Could not duplicate ${fromPath} as ${toPath}`);
+        return;
+      }
+      setSelectedPath(toPath);
+      toast.success(`Duplicated ${fromPath} as ${toPath}`);
+    },
+    [duplicateKey]
+  );
+
+  const handleMoveKey = useCallback(
+    (fromPath: string, toPath: string, options?: MoveOptions) => {
+      if (!moveKey(fromPath, toPath, options)) {
+        toast.error(`Could not move ${fromPath} to ${toPath}`);
+        return;
+      }
+      // The selection follows the moved key, or its place inside a moved namespace
+      setSelectedPath((current) =>
+        current === fromPath || current?.startsWith(fromPath + ".")
+          ? toPath + current.slice(fromPath.length)
+          : current
+      );
+      toast.success(
+        `Moved ${fromPath} to ${toPath}`,
+        options?.keepAlias
+          ? { description: `${fromPath} stays available as an alias` }
+          : undefined
+      );
+    },
+    [moveKey]
+  );
+
+  const handleBulkRename = useCallback(
+    (pattern: RegExp, replacement: string, keepAliases: boolean) => {
+      const count = bulkRenameKeys(pattern, replacement, keepAliases);
+      if (count > 0) {
+        setSelectedPath(null);
+        toast.success(`Renamed ${count} key${count !== 1 ? "s" : ""}`, {
+          description: "Undo to put them back",
+        });
+      } else {
+        toast.info("No keys were renamed");
+      }
+    },
+    [bulkRenameKeys]
+  );
+
+  const handleRetireAlias = useCallback(
+    (aliasPath: string) => {
+      if (!removeAlias(aliasPath)) return;
+      toast.success(`Retired alias ${aliasPath}`);
+    },
+    [removeAlias]
+  );
+
+  const handleDeleteKey = useCallback(
+    (keyPath: string) => {
+      if (!deleteKey(keyPath)) return;
+      setSelectedPath((current) =>
+        current === keyPath || current?.startsWith(keyPath + ".")
+          ? keyPath.split(".").slice(0, -1).join(".") || null
+          : current
+      );
+      toast.success(`Deleted ${keyPath}`, {
+        description: "Undo or discard to bring it back before saving",
+      });
+    },
+    [deleteKey]
+  );
+
   if (loading) {
     return (
       <div className="h-screen flex items-center justify-center bg-background">
@@ -134,18 +721,34 @@ export const Dashboard = () => {
 
   if (error || !data) {
     return (
-      <div className="h-screen flex items-center justify-center bg-background">
-        <div className="text-center">
-          <p className="text-destructive text-xl font-medium">
-            Failed to load translations upload the reaquired translation file
-          </p>
-          <p className="text-muted-foreground mt-2 text-lg">{error}</p>
+      <div className="h-screen flex items-center justify-center bg-background p-6">
+        <div className="w-full max-w-2xl bg-card border border-border rounded-xl p-6 space-y-6">
+          <div className="flex items-start gap-3">
+            <AlertTriangle className="w-6 h-6 text-warning flex-shrink-0 mt-0.5" />
+            <div>
+              <p className="text-xl font-medium">
+                No translations could be loaded
+              </p>
+              <p className="text-muted-foreground mt-1">
+                {error?.message ?? "The server returned no data"}. Import your
+                locale files to start a new project.
+              </p>
+            </div>
+          </div>
+          {error && <LoadErrorDetails error={error} />}
+          <ImportWizard onImport={handleImport} />
+          <Button variant="outline" size="sm" onClick={refetch}>
+            Retry loading
+          </Button>
         </div>
       </div>
     );
   }
 
-  const tree = buildTree(data.translations);
+  const indexProgressPercent =
+    indexProgress && indexProgress.total > 0
+      ? (indexProgress.processed / indexProgress.total) * 100
+      : 0;
 
   return (
     <div className="h-screen flex flex-col bg-background">
@@ -154,40 +757,140 @@ export const Dashboard = () => {
         languages={data.languages}
         theme={theme}
         onToggleTheme={toggleTheme}
+        environment={environment}
+        onEnvironmentChange={handleEnvironmentChange}
         onAddLanguage={handleAddLanguage}
         onRemoveLanguage={handleRemoveLanguage}
-        onExport={handleExport}
+        onDeleteTranslations={handleDeleteTranslations}
+        isDeleting={isDeleting}
+        onExportFormat={handleExportFormat}
+        onExportBundle={handleExportBundle}
+        onImport={handleOpenImport}
+        onExportXliff={handleExportXliff}
+        onImportXliff={handleImportXliff}
+        onImportPo={handleImportPo}
+        onExportMobile={handleExportMobile}
+        getMobileCollisions={getMobileCollisions}
+        onImportMobile={handleImportMobile}
+        onImportSpreadsheet={handleImportSpreadsheet}
         hasUnsavedChanges={hasUnsavedChanges}
-        unsavedCount={unsavedChanges.length}
+        isLocalProject={isLocalProject}
+        unsavedCount={operations.length}
+        isSaving={isSaving}
         onSave={handleSave}
         onDiscard={handleDiscard}
+        canUndo={canUndo}
+        canRedo={canRedo}
+        undoLabel={undoLabel}
+        redoLabel={redoLabel}
+        onUndo={handleUndo}
+        onRedo={handleRedo}
       />
 
-      <div className="flex-1 flex overflow-hidden">
-        <TreeView
-          tree={tree}
-          languages={data.languages}
-          selectedPath={selectedPath}
-          onSelectPath={setSelectedPath}
-          searchQuery={searchQuery}
-          onSearchChange={setSearchQuery}
-          missingFilter={missingFilter}
-          onMissingFilterChange={setMissingFilter}
+      {tree && indexProgress && (
+        <Progress
+          value={indexProgressPercent}
+          className="h-1 rounded-none"
+          aria-label="Indexing translations"
         />
+      )}
 
-        <main className="flex-1 flex flex-col overflow-hidden bg-card">
-          <TranslationEditor
+      {tree ? (
+        <div className="flex-1 flex overflow-hidden">
+          <TreeView
             tree={tree}
             languages={data.languages}
+            stats={stats}
             selectedPath={selectedPath}
+            onSelectPath={setSelectedPath}
             searchQuery={searchQuery}
+            onSearchChange={setSearchQuery}
+            searchMatches={searchMatches}
+            isSearching={isSearching}
             missingFilter={missingFilter}
-            unsavedChanges={unsavedChanges}
-            onUpdateTranslation={updateTranslation}
-            onRenameKey={handleRenameKey}
+            onMissingFilterChange={setMissingFilter}
+            onKeyAction={setKeyAction}
+            onMoveKey={handleMoveKey}
+            onBulkRename={() => setShowBulkRename(true)}
+            aliases={data.aliases}
+            onRetireAlias={handleRetireAlias}
           />
-        </main>
-      </div>
+
+          <main className="flex-1 flex flex-col overflow-hidden bg-card">
+            <TranslationEditor
+              tree={tree}
+              languages={data.languages}
+              selectedPath={selectedPath}
+              searchQuery={searchQuery}
+              searchMatches={searchMatches}
+              missingFilter={missingFilter}
+              unsavedChanges={unsavedChanges}
+              onUpdateTranslation={updateTranslation}
+              onEndEdit={endEditGroup}
+              onBulkUpdate={bulkUpdate}
+              onKeyAction={setKeyAction}
+            />
+          </main>
+        </div>
+      ) : (
+        <div className="flex-1 flex items-center justify-center">
+          <div className="w-full max-w-sm flex flex-col items-center gap-4">
+            <Loader2 className="w-10 h-10 animate-spin text-primary" />
+            <p className="text-lg text-muted-foreground">
+              Indexing translations...
+            </p>
+            <Progress value={indexProgressPercent} className="h-2" />
+            {indexProgress && indexProgress.total > 0 && (
+              <p className="text-sm text-muted-foreground">
+                {indexProgress.processed.toLocaleString()} of{" "}
+                {indexProgress.total.toLocaleString()} keys
+              </p>
+            )}
+          </div>
+        </div>
+      )}
+
+      <SpreadsheetImportDialog
+        fileName={spreadsheetImport?.fileName ?? ""}
+        diff={spreadsheetImport?.diff ?? null}
+        onOpenChange={(open) => !open && setSpreadsheetImport(null)}
+        onApply={handleApplySpreadsheet}
+      />
+
+      <Dialog open={showImportDialog} onOpenChange={setShowImportDialog}>
+        <DialogContent className="sm:max-w-2xl bg-card">
+          <DialogHeader>
+            <DialogTitle>Import translations</DialogTitle>
+            <DialogDescription>
+              Load locale files as a new project. The current project stays on
+              the server.
+            </DialogDescription>
+          </DialogHeader>
+          <ImportWizard
+            onImport={handleImport}
+            onCancel={() => setShowImportDialog(false)}
+          />
+        </DialogContent>
+      </Dialog>
+
+      <BulkRenameDialog
+        open={showBulkRename}
+        data={data}
+        onOpenChange={setShowBulkRename}
+        onApply={handleBulkRename}
+      />
+
+      <KeyActionDialog
+        action={keyAction}
+        translations={data.translations}
+        onClose={() => setKeyAction(null)}
+        onCreateKey={handleCreateKey}
+        onCreateNamespace={handleCreateNamespace}
+        onDuplicate={handleDuplicateKey}
+        onMove={handleMoveKey}
+        onRename={handleRenameKey}
+        onDelete={handleDeleteKey}
+      />
 
       <AlertDialog open={showDiscardDialog} onOpenChange={setShowDiscardDialog}>
         <AlertDialogContent className="bg-card">
@@ -196,11 +899,21 @@ export const Dashboard = () => {
               Discard unsaved changes?
             </AlertDialogTitle>
             <AlertDialogDescription className="text-base">
-              You have {unsavedChanges.length} unsaved change
-              {unsavedChanges.length !== 1 ? "s" : ""}. This action cannot be
-              undone.
+              {isLocalProject
+                ? `"${data.project}" is not on the server yet, so discarding removes the whole import.`
+                : `You have ${operations.length} unsaved change${
+                    operations.length !== 1 ? "s" : ""
+                  }.`}{" "}
+              This action cannot be undone.
             </AlertDialogDescription>
           </AlertDialogHeader>
+          <ul className="max-h-48 overflow-y-auto scrollbar-thin space-y-1 text-sm font-mono text-muted-foreground">
+            {operations.map((op) => (
+              <li key={op.id} className="truncate">
+                {describeOperation(op)}
+              </li>
+            ))}
+          </ul>
           <AlertDialogFooter>
             <AlertDialogCancel>Cancel</AlertDialogCancel>
             <AlertDialogAction
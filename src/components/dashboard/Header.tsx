@@ -8,13 +8,25 @@ import {
   Languages,
   Trash,
   Trash2,
+  Loader2,
+  Undo2,
+  Redo2,
+  Server,
+  Upload,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
   DropdownMenu,
+  DropdownMenuCheckboxItem,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
   DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import {
@@ -28,22 +40,76 @@ import {
 } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
-import { useState } from "react";
-import { deleteLanguageData } from "@/services/translationservices";
-import { toast } from "sonner";
+import { useState, useRef } from "react";
+import { ApiEnvironment, API_ENVIRONMENTS } from "@/services/apiClient";
+import { cn } from "@/lib/utils";
+import {
+  DEFAULT_I18NEXT_EXPORT_OPTIONS,
+  I18nextExportOptions,
+  I18nextStyle,
+} from "@/lib/formats/i18next";
+import { XliffExportOptions } from "@/lib/formats/xliff";
+import { XliffExportDialog } from "./XliffExportDialog";
+import {
+  DEFAULT_MOBILE_SEPARATORS,
+  MobileExportOptions,
+  PlatformKeyCollision,
+} from "@/lib/formats/platformKeys";
+import { MobileExportDialog } from "./MobileExportDialog";
+import { BundleOptions } from "@/lib/formats/bundle";
+import { BundleExportDialog } from "./BundleExportDialog";
+import { AliasExportMode, ExportSettings, getFormats } from "@/lib/formats";
+
+const environmentBadgeStyles: Record<ApiEnvironment, string> = {
+  dev: "bg-success/10 text-success border-success/30",
+  staging: "bg-warning/10 text-warning border-warning/30",
+  prod: "bg-destructive text-destructive-foreground border-destructive",
+};
 
 interface HeaderProps {
   projectName: string;
   languages: string[];
   theme: "light" | "dark";
   onToggleTheme: () => void;
+  environment: ApiEnvironment;
+  onEnvironmentChange: (environment: ApiEnvironment) => void;
   onAddLanguage: (code: string) => void;
   onRemoveLanguage: (code: string) => void;
-  onExport: (language?: string) => void;
+  onDeleteTranslations: () => void;
+  isDeleting: boolean;
+  onExportFormat: (
+    formatId: string,
+    language: string | undefined,
+    settings: ExportSettings
+  ) => void;
+  onExportBundle: (options: BundleOptions, settings: ExportSettings) => void;
+  onImport: () => void;
+  onExportXliff: (options: XliffExportOptions) => void;
+  onImportXliff: (file: File) => void;
+  onImportPo: (file: File) => void;
+  onExportMobile: (
+    options: MobileExportOptions,
+    settings: ExportSettings
+  ) => void;
+  getMobileCollisions: (
+    options: MobileExportOptions,
+    settings: ExportSettings
+  ) => PlatformKeyCollision[];
+  onImportMobile: (file: File, options: MobileExportOptions) => void;
+  onImportSpreadsheet: (file: File) => void;
   hasUnsavedChanges: boolean;
+  // The project was imported while the backend was unreachable and isn't stored there yet
+  isLocalProject: boolean;
   unsavedCount: number;
+  isSaving: boolean;
   onSave: () => void;
   onDiscard: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  undoLabel: string | null;
+  redoLabel: string | null;
+  onUndo: () => void;
+  onRedo: () => void;
 }
 
 export const Header = ({
@@ -51,17 +117,58 @@ export const Header = ({
   languages,
   theme,
   onToggleTheme,
+  environment,
+  onEnvironmentChange,
   onAddLanguage,
   onRemoveLanguage,
-  onExport,
+  onDeleteTranslations,
+  isDeleting,
+  onExportFormat,
+  onExportBundle,
+  onImport,
+  onExportXliff,
+  onImportXliff,
+  onImportPo,
+  onExportMobile,
+  getMobileCollisions,
+  onImportMobile,
+  onImportSpreadsheet,
   hasUnsavedChanges,
+  isLocalProject,
   unsavedCount,
+  isSaving,
   onSave,
   onDiscard,
+  canUndo,
+  canRedo,
+  undoLabel,
+  redoLabel,
+  onUndo,
+  onRedo,
 }: HeaderProps) => {
   const [newLanguage, setNewLanguage] = useState("");
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
-  const [isloading, setIsloading] = useState<boolean>(false);
+  const [isXliffDialogOpen, setIsXliffDialogOpen] = useState(false);
+  const xliffInputRef = useRef<HTMLInputElement>(null);
+  const poInputRef = useRef<HTMLInputElement>(null);
+  const mobileInputRef = useRef<HTMLInputElement>(null);
+  const spreadsheetInputRef = useRef<HTMLInputElement>(null);
+  const [isMobileDialogOpen, setIsMobileDialogOpen] = useState(false);
+  const [isBundleDialogOpen, setIsBundleDialogOpen] = useState(false);
+  // Shared by export and import so key names map back the same way
+  const [mobileOptions, setMobileOptions] = useState<MobileExportOptions>({
+    platform: "android",
+    separator: DEFAULT_MOBILE_SEPARATORS.android,
+  });
+  const [exportOptions, setExportOptions] = useState<I18nextExportOptions>(
+    DEFAULT_I18NEXT_EXPORT_OPTIONS
+  );
+  const [aliasMode, setAliasMode] = useState<AliasExportMode>("none");
+  const exportSettings: ExportSettings = {
+    i18next: exportOptions,
+    aliases: aliasMode,
+  };
+  const exportFormats = getFormats().filter((format) => format.export);
 
   const handleAddLanguage = () => {
     if (newLanguage.trim()) {
@@ -71,18 +178,6 @@ export const Header = ({
     }
   };
 
-  const handleTranslationdata = async () => {
-    setIsloading(true);
-    try {
-      await deleteLanguageData();
-      toast.success("Translations key are deleted successfully");
-    } catch (error) {
-      toast.error("There is an issue in deleting the data");
-    } finally {
-      setIsloading(false);
-    }
-  };
-
   return (
     <header className="h-16 border-b border-border bg-card px-6 flex items-center justify-between">
       <div className="flex items-center gap-4">
@@ -98,26 +193,96 @@ export const Header = ({
           </div>
         </div>
 
+        {/* Active backend, loud on production so nobody edits it by accident */}
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <button title={API_ENVIRONMENTS[environment].baseURL}>
+              <Badge
+                variant="outline"
+                className={cn(
+                  "gap-1.5 uppercase tracking-wide cursor-pointer",
+                  environmentBadgeStyles[environment]
+                )}
+              >
+                <Server className="w-3 h-3" />
+                {environment}
+              </Badge>
+            </button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start" className="w-72 bg-popover">
+            <DropdownMenuLabel>Backend environment</DropdownMenuLabel>
+            <DropdownMenuSeparator />
+            <DropdownMenuRadioGroup
+              value={environment}
+              onValueChange={(value) =>
+                onEnvironmentChange(value as ApiEnvironment)
+              }
+            >
+              {(Object.keys(API_ENVIRONMENTS) as ApiEnvironment[]).map(
+                (env) => (
+                  <DropdownMenuRadioItem
+                    key={env}
+                    value={env}
+                    disabled={!API_ENVIRONMENTS[env].baseURL}
+                  >
+                    <div className="flex flex-col">
+                      <span>{API_ENVIRONMENTS[env].label}</span>
+                      <span className="text-xs text-muted-foreground font-mono truncate">
+                        {API_ENVIRONMENTS[env].baseURL || "Not configured"}
+                      </span>
+                    </div>
+                  </DropdownMenuRadioItem>
+                )
+              )}
+            </DropdownMenuRadioGroup>
+          </DropdownMenuContent>
+        </DropdownMenu>
+
         {hasUnsavedChanges && (
           <Badge
             variant="outline"
             className="bg-warning/10 text-warning border-warning/30 animate-pulse-warning"
           >
-            {unsavedCount} unsaved change{unsavedCount !== 1 ? "s" : ""}
+            {isLocalProject
+              ? "Not saved to the server yet"
+              : `${unsavedCount} unsaved change${unsavedCount !== 1 ? "s" : ""}`}
           </Badge>
         )}
       </div>
 
       <div className="flex items-center gap-2">
+        {/* Undo/Redo */}
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={onUndo}
+          disabled={!canUndo}
+          title={undoLabel ? `Undo: ${undoLabel} (Ctrl+Z)` : "Nothing to undo"}
+        >
+          <Undo2 className="w-4 h-4" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={onRedo}
+          disabled={!canRedo}
+          title={
+            redoLabel ? `Redo: ${redoLabel} (Ctrl+Shift+Z)` : "Nothing to redo"
+          }
+        >
+          <Redo2 className="w-4 h-4" />
+        </Button>
+
         {/* Language Management */}
         <Button
           variant="destructive"
           size="sm"
           className="gap-2"
-          onClick={handleTranslationdata}
+          onClick={onDeleteTranslations}
+          disabled={isDeleting}
         >
           <Trash2 className="w-4 h-4" />
-          {isloading ? "loading....." : "Delete Translations"}
+          {isDeleting ? "loading....." : "Delete Translations"}
         </Button>
         <DropdownMenu>
           <DropdownMenuTrigger asChild>
@@ -182,6 +347,98 @@ export const Header = ({
           </DropdownMenuContent>
         </DropdownMenu>
 
+        {/* Import */}
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" className="gap-2">
+              <Upload className="w-4 h-4" />
+              Import
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end" className="w-64 bg-popover">
+            <DropdownMenuItem onClick={onImport}>
+              New project from locale files…
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={() => xliffInputRef.current?.click()}>
+              Apply translated XLIFF…
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={() => poInputRef.current?.click()}>
+              Apply gettext .po…
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={() => mobileInputRef.current?.click()}>
+              Apply Android / iOS strings…
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={() => spreadsheetInputRef.current?.click()}>
+              Apply spreadsheet (CSV / XLSX)…
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+        <input
+          ref={xliffInputRef}
+          type="file"
+          accept=".xlf,.xliff"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onImportXliff(file);
+            e.target.value = "";
+          }}
+        />
+        <input
+          ref={poInputRef}
+          type="file"
+          accept=".po"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onImportPo(file);
+            e.target.value = "";
+          }}
+        />
+        <input
+          ref={mobileInputRef}
+          type="file"
+          accept=".zip,.xml,.strings,.stringsdict"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onImportMobile(file, mobileOptions);
+            e.target.value = "";
+          }}
+        />
+        <input
+          ref={spreadsheetInputRef}
+          type="file"
+          accept=".csv,.tsv,.xlsx,.xls"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onImportSpreadsheet(file);
+            e.target.value = "";
+          }}
+        />
+        <MobileExportDialog
+          open={isMobileDialogOpen}
+          onOpenChange={setIsMobileDialogOpen}
+          options={mobileOptions}
+          onOptionsChange={setMobileOptions}
+          onExport={(options) => onExportMobile(options, exportSettings)}
+          getCollisions={(options) =>
+            getMobileCollisions(options, exportSettings)
+          }
+        />
+        <BundleExportDialog
+          open={isBundleDialogOpen}
+          onOpenChange={setIsBundleDialogOpen}
+          onExport={(options) => onExportBundle(options, exportSettings)}
+        />
+        <XliffExportDialog
+          open={isXliffDialogOpen}
+          onOpenChange={setIsXliffDialogOpen}
+          languages={languages}
+          onExport={onExportXliff}
+        />
+
         {/* Export */}
         <DropdownMenu>
           <DropdownMenuTrigger asChild>
@@ -190,16 +447,136 @@ export const Header = ({
               Export
             </Button>
           </DropdownMenuTrigger>
-          <DropdownMenuContent align="end" className="bg-popover">
-            <DropdownMenuItem onClick={() => onExport()}>
-              Export All (Multi-language)
+          <DropdownMenuContent align="end" className="w-64 bg-popover">
+            <DropdownMenuItem onClick={() => setIsBundleDialogOpen(true)}>
+              Export bundle (.zip)…
             </DropdownMenuItem>
             <DropdownMenuSeparator />
-            {languages.map((lang) => (
-              <DropdownMenuItem key={lang} onClick={() => onExport(lang)}>
-                Export {lang.toUpperCase()} only
-              </DropdownMenuItem>
-            ))}
+            {exportFormats
+              .filter((format) => format.export?.scope === "project")
+              .map((format) => (
+                <DropdownMenuItem
+                  key={format.id}
+                  onClick={() => onExportFormat(format.id, undefined, exportSettings)}
+                >
+                  Export {format.label}
+                </DropdownMenuItem>
+              ))}
+            <DropdownMenuSeparator />
+            {exportFormats
+              .filter((format) => format.export?.scope === "language")
+              .map((format) => (
+                <DropdownMenuSub key={format.id}>
+                  <DropdownMenuSubTrigger>{format.label}</DropdownMenuSubTrigger>
+                  <DropdownMenuSubContent className="w-56 bg-popover">
+                    <DropdownMenuItem
+                      onClick={() => onExportFormat(format.id, undefined, exportSettings)}
+                    >
+                      All languages (one file each)
+                    </DropdownMenuItem>
+                    <DropdownMenuSeparator />
+                    {languages.map((lang) => (
+                      <DropdownMenuItem
+                        key={lang}
+                        onClick={() => onExportFormat(format.id, lang, exportSettings)}
+                      >
+                        {lang.toUpperCase()} only
+                      </DropdownMenuItem>
+                    ))}
+                  </DropdownMenuSubContent>
+                </DropdownMenuSub>
+              ))}
+            <DropdownMenuSeparator />
+            <DropdownMenuItem
+              onClick={() => setIsXliffDialogOpen(true)}
+              disabled={languages.length < 2}
+            >
+              Export XLIFF for translation…
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={() => setIsMobileDialogOpen(true)}>
+              Export for Android / iOS…
+            </DropdownMenuItem>
+            <DropdownMenuSeparator />
+            <DropdownMenuLabel className="text-xs text-muted-foreground">
+              i18next JSON
+            </DropdownMenuLabel>
+            <DropdownMenuRadioGroup
+              value={exportOptions.style}
+              onValueChange={(style) =>
+                setExportOptions((prev) => ({
+                  ...prev,
+                  style: style as I18nextStyle,
+                }))
+              }
+            >
+              <DropdownMenuRadioItem
+                value="nested"
+                onSelect={(e) => e.preventDefault()}
+              >
+                Nested keys
+              </DropdownMenuRadioItem>
+              <DropdownMenuRadioItem
+                value="flat"
+                onSelect={(e) => e.preventDefault()}
+              >
+                Flat keys (a.b.c)
+              </DropdownMenuRadioItem>
+            </DropdownMenuRadioGroup>
+            <DropdownMenuCheckboxItem
+              checked={exportOptions.sortKeys}
+              onCheckedChange={(sortKeys) =>
+                setExportOptions((prev) => ({ ...prev, sortKeys }))
+              }
+              onSelect={(e) => e.preventDefault()}
+            >
+              Sort keys
+            </DropdownMenuCheckboxItem>
+            <DropdownMenuLabel className="text-xs text-muted-foreground">
+              Indent
+            </DropdownMenuLabel>
+            <DropdownMenuRadioGroup
+              value={String(exportOptions.indent)}
+              onValueChange={(indent) =>
+                setExportOptions((prev) => ({ ...prev, indent: Number(indent) }))
+              }
+            >
+              {[2, 4, 0].map((indent) => (
+                <DropdownMenuRadioItem
+                  key={indent}
+                  value={String(indent)}
+                  onSelect={(e) => e.preventDefault()}
+                >
+                  {indent === 0 ? "Minified" : `${indent} spaces`}
+                </DropdownMenuRadioItem>
+              ))}
+            </DropdownMenuRadioGroup>
+            <DropdownMenuSeparator />
+            <DropdownMenuLabel className="text-xs text-muted-foreground">
+              Key aliases
+            </DropdownMenuLabel>
+            <DropdownMenuRadioGroup
+              value={aliasMode}
+              onValueChange={(mode) => setAliasMode(mode as AliasExportMode)}
+            >
+              <DropdownMenuRadioItem
+                value="none"
+                onSelect={(e) => e.preventDefault()}
+              >
+                Leave out
+              </DropdownMenuRadioItem>
+              <DropdownMenuRadioItem
+                value="duplicate"
+                onSelect={(e) => e.preventDefault()}
+              >
+                Duplicate under old paths
+              </DropdownMenuRadioItem>
+              <DropdownMenuRadioItem
+                value="redirects"
+                onSelect={(e) => e.preventDefault()}
+              >
+                Add aliases.json redirect map
+              </DropdownMenuRadioItem>
+            </DropdownMenuRadioGroup>
           </DropdownMenuContent>
         </DropdownMenu>
 
@@ -215,9 +592,18 @@ export const Header = ({
               <RotateCcw className="w-4 h-4" />
               Discard
             </Button>
-            <Button size="sm" onClick={onSave} className="gap-2">
-              <Save className="w-4 h-4" />
-              Save
+            <Button
+              size="sm"
+              onClick={onSave}
+              disabled={isSaving}
+              className="gap-2"
+            >
+              {isSaving ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : (
+                <Save className="w-4 h-4" />
+              )}
+              {isSaving ? "Saving..." : "Save"}
             </Button>
           </>
         )}
@@ -0,0 +1,358 @@
+import { useState, useMemo, useRef, useCallback } from "react";
+import {
+  Upload,
+  FileJson,
+  AlertTriangle,
+  Loader2,
+  X,
+  ArrowLeft,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import { TranslationData } from "@/types/translation";
+import { mergeLocaleFiles } from "@/lib/formats/json";
+import { ParsedLocaleFile, countKeys } from "@/lib/formats/localeFiles";
+import { getFormat, getImportAccept, parseLocaleFile } from "@/lib/formats";
+
+interface ImportWizardProps {
+  defaultProjectName?: string;
+  onImport: (dataset: TranslationData) => Promise<boolean>;
+  onCancel?: () => void;
+}
+
+interface UploadedFile {
+  name: string;
+  content: string;
+  languageOverride?: string;
+  result?: ParsedLocaleFile;
+  error?: string;
+}
+
+const parseUpload = (upload: UploadedFile): UploadedFile => {
+  try {
+    return {
+      ...upload,
+      result: parseLocaleFile(
+        upload.name,
+        upload.content,
+        upload.languageOverride
+      ),
+      error: undefined,
+    };
+  } catch (e) {
+    return {
+      ...upload,
+      result: undefined,
+      error: e instanceof Error ? e.message : "Could not read file",
+    };
+  }
+};
+
+const MAX_SKIPPED_SHOWN = 3;
+
+const SkippedKeys = ({ keys }: { keys: string[] }) => (
+  <div
+    className="flex items-start gap-1 text-warning text-xs"
+    title={keys.join("\n")}
+  >
+    <AlertTriangle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+    <span className="break-all">
+      {keys.length} entr{keys.length !== 1 ? "ies" : "y"} skipped, not
+      usable as key paths:{" "}
+      {keys
+        .slice(0, MAX_SKIPPED_SHOWN)
+        .map((key) => `"${key}"`)
+        .join(", ")}
+      {keys.length > MAX_SKIPPED_SHOWN && ", …"}
+    </span>
+  </div>
+);
+
+export const ImportWizard = ({
+  defaultProjectName,
+  onImport,
+  onCancel,
+}: ImportWizardProps) => {
+  const [step, setStep] = useState<"upload" | "preview">("upload");
+  const [uploads, setUploads] = useState<UploadedFile[]>([]);
+  const [projectName, setProjectName] = useState(defaultProjectName ?? "");
+  const [isDragging, setIsDragging] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const addFiles = useCallback(
+    async (fileList: FileList | null) => {
+      if (!fileList || fileList.length === 0) return;
+
+      const added = await Promise.all(
+        Array.from(fileList).map(async (file) =>
+          parseUpload({ name: file.name, content: await file.text() })
+        )
+      );
+
+      setUploads((prev) => [
+        ...prev.filter((u) => !added.some((a) => a.name === u.name)),
+        ...added,
+      ]);
+      if (!projectName) {
+        const named = added.find((a) => a.result?.project);
+        if (named?.result?.project) setProjectName(named.result.project);
+      }
+      setStep("preview");
+    },
+    [projectName]
+  );
+
+  const setLanguageOverride = (name: string, language: string) => {
+    setUploads((prev) =>
+      prev.map((u) =>
+        u.name === name
+          ? parseUpload({
+              ...u,
+              languageOverride: language.trim().toLowerCase() || undefined,
+            })
+          : u
+      )
+    );
+  };
+
+  const removeUpload = (name: string) => {
+    setUploads((prev) => prev.filter((u) => u.name !== name));
+  };
+
+  const validFiles = useMemo(
+    () => uploads.flatMap((u) => (u.result ? [u.result] : [])),
+    [uploads]
+  );
+
+  const dataset = useMemo(
+    () =>
+      validFiles.length > 0
+        ? mergeLocaleFiles(validFiles, projectName.trim())
+        : null,
+    [validFiles, projectName]
+  );
+
+  const keyCount = dataset
+    ? countKeys(dataset.translations)
+    : 0;
+
+  const handleImport = async () => {
+    if (!dataset || !dataset.project) return;
+    setIsImporting(true);
+    const success = await onImport(dataset);
+    setIsImporting(false);
+    if (success) {
+      setUploads([]);
+      setStep("upload");
+    }
+  };
+
+  return (
+    <div className="space-y-5">
+      {/* Step indicator */}
+      <div className="flex items-center gap-2 text-sm">
+        {(["upload", "preview"] as const).map((s, index) => (
+          <div key={s} className="flex items-center gap-2">
+            {index > 0 && <div className="w-8 h-px bg-border" />}
+            <span
+              className={cn(
+                "w-6 h-6 rounded-full flex items-center justify-center text-xs font-medium",
+                step === s
+                  ? "bg-primary text-primary-foreground"
+                  : "bg-muted text-muted-foreground"
+              )}
+            >
+              {index + 1}
+            </span>
+            <span
+              className={cn(
+                step === s ? "text-foreground font-medium" : "text-muted-foreground"
+              )}
+            >
+              {s === "upload" ? "Choose files" : "Review & import"}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      <input
+        ref={inputRef}
+        type="file"
+        accept={getImportAccept()}
+        multiple
+        className="hidden"
+        onChange={(e) => {
+          addFiles(e.target.files);
+          e.target.value = "";
+        }}
+      />
+
+      {step === "upload" ? (
+        <div
+          onDragOver={(e) => {
+            e.preventDefault();
+            setIsDragging(true);
+          }}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={(e) => {
+            e.preventDefault();
+            setIsDragging(false);
+            addFiles(e.dataTransfer.files);
+          }}
+          onClick={() => inputRef.current?.click()}
+          className={cn(
+            "border-2 border-dashed rounded-lg p-10 flex flex-col items-center gap-3 cursor-pointer transition-colors",
+            isDragging
+              ? "border-primary bg-primary/5"
+              : "border-border hover:border-primary/50 hover:bg-muted/30"
+          )}
+        >
+          <Upload className="w-10 h-10 text-muted-foreground" />
+          <p className="text-base font-medium">
+            Drop locale files here or click to browse
+          </p>
+          <p className="text-sm text-muted-foreground">
+            One file per language (e.g. <code>en.json</code>,{" "}
+            <code>de.yml</code>, <code>messages_fr.properties</code>) or a
+            multi-language file such as a CSV or XLIFF
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <div className="border border-border rounded-lg divide-y divide-border max-h-72 overflow-y-auto scrollbar-thin">
+            {uploads.map((upload) => (
+              <div key={upload.name} className="flex items-center gap-3 p-3">
+                <FileJson
+                  className={cn(
+                    "w-5 h-5 flex-shrink-0",
+                    upload.error ? "text-destructive" : "text-primary/70"
+                  )}
+                />
+                <div className="flex-1 min-w-0 space-y-1">
+                  <p className="font-mono text-sm truncate">{upload.name}</p>
+                  {upload.result ? (
+                    <div className="flex items-center gap-2 flex-wrap text-xs text-muted-foreground">
+                      <span>
+                        {getFormat(upload.result.format)?.label ?? upload.result.format}
+                        {upload.result.variant && ` (${upload.result.variant})`}
+                      </span>
+                      <span>•</span>
+                      <span>{upload.result.keyCount} keys</span>
+                      {upload.result.languages.map((lang) => (
+                        <Badge
+                          key={lang}
+                          variant="outline"
+                          className="font-mono text-[10px] px-1.5 py-0"
+                        >
+                          {lang.toUpperCase()}
+                        </Badge>
+                      ))}
+                    </div>
+                  ) : (
+                    <div className="flex items-center gap-1 text-destructive text-xs">
+                      <AlertTriangle className="w-3 h-3" />
+                      {upload.error} — skipped
+                    </div>
+                  )}
+                  {upload.result?.skippedKeys && (
+                    <SkippedKeys keys={upload.result.skippedKeys} />
+                  )}
+                </div>
+                {(upload.error ||
+                  (upload.result && upload.result.languages.length === 1)) && (
+                  <Input
+                    defaultValue={upload.languageOverride ?? upload.result?.languages[0] ?? ""}
+                    onBlur={(e) => setLanguageOverride(upload.name, e.target.value)}
+                    placeholder="lang"
+                    title="Language of this file"
+                    className="w-20 h-8 font-mono text-xs uppercase"
+                    maxLength={10}
+                  />
+                )}
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={() => removeUpload(upload.name)}
+                  title="Remove file"
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => inputRef.current?.click()}
+            className="gap-2"
+          >
+            <Upload className="w-4 h-4" />
+            Add more files
+          </Button>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Project name</label>
+              <Input
+                value={projectName}
+                onChange={(e) => setProjectName(e.target.value)}
+                placeholder="My App"
+              />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Detected</label>
+              <div className="flex items-center gap-2 flex-wrap h-10">
+                <Badge variant="secondary">{keyCount} keys</Badge>
+                {dataset?.languages.map((lang) => (
+                  <Badge key={lang} variant="outline" className="font-mono">
+                    {lang.toUpperCase()}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <div className="flex justify-between gap-2">
+        <div>
+          {step === "preview" && (
+            <Button
+              variant="ghost"
+              onClick={() => {
+                setUploads([]);
+                setStep("upload");
+              }}
+              className="gap-2"
+            >
+              <ArrowLeft className="w-4 h-4" />
+              Start over
+            </Button>
+          )}
+        </div>
+        <div className="flex gap-2">
+          {onCancel && (
+            <Button variant="outline" onClick={onCancel}>
+              Cancel
+            </Button>
+          )}
+          {step === "preview" && (
+            <Button
+              onClick={handleImport}
+              disabled={!dataset || !projectName.trim() || isImporting}
+              className="gap-2"
+            >
+              {isImporting && <Loader2 className="w-4 h-4 animate-spin" />}
+              Import {keyCount} keys
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
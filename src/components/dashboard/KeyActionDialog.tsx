@@ -0,0 +1,543 @@
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { TranslationNode, TranslationTreeNode } from "@/types/translation";
+import {
+  getKeyNameError,
+  getMoveKeyError,
+  getNewKeyPathError,
+  getNodeAt,
+  listEntries,
+  planMerge,
+  splitPath,
+} from "@/lib/translationOperations";
+import { cn } from "@/lib/utils";
+import type { MoveOptions } from "@/hooks/useTranslations";
+
+export type KeyAction =
+  | { type: "createKey"; parentPath: string }
+  | { type: "createNamespace"; parentPath: string }
+  | { type: "duplicate"; sourcePath: string }
+  | { type: "move"; path: string }
+  | { type: "rename"; path: string }
+  | { type: "delete"; path: string };
+
+interface KeyActionDialogProps {
+  action: KeyAction | null;
+  translations: TranslationNode;
+  onClose: () => void;
+  onCreateKey: (keyPath: string) => void;
+  onCreateNamespace: (keyPath: string) => void;
+  onDuplicate: (fromPath: string, toPath: string) => void;
+  onMove: (fromPath: string, toPath: string, options: MoveOptions) => void;
+  onRename: (keyPath: string, newName: string, options: MoveOptions) => void;
+  onDelete: (keyPath: string) => void;
+}
+
+type FormAction = Exclude<KeyAction, { type: "delete" | "move" | "rename" }>;
+
+// First "<path>_copy", "<path>_copy2", ... that doesn't exist yet
+const suggestCopyPath = (translations: TranslationNode, sourcePath: string) => {
+  for (let n = 1; ; n++) {
+    const path = `${sourcePath}_copy${n > 1 ? n : ""}`;
+    if (!getNodeAt(translations, path)) return path;
+  }
+};
+
+const initialPath = (translations: TranslationNode, action: KeyAction) => {
+  switch (action.type) {
+    case "createKey":
+    case "createNamespace":
+      return action.parentPath ? `${action.parentPath}.` : "";
+    case "duplicate":
+      return suggestCopyPath(translations, action.sourcePath);
+    case "move":
+    case "rename":
+    case "delete":
+      return action.path;
+  }
+};
+
+const TITLES = {
+  createKey: "New key",
+  createNamespace: "New namespace",
+  duplicate: "Duplicate key",
+};
+
+const PathForm = ({
+  action,
+  translations,
+  onClose,
+  onCreateKey,
+  onCreateNamespace,
+  onDuplicate,
+}: Omit<KeyActionDialogProps, "action" | "onDelete" | "onMove" | "onRename"> & {
+  action: FormAction;
+}) => {
+  const [path, setPath] = useState(() => initialPath(translations, action));
+  const error = path.trim() ? getNewKeyPathError(translations, path) : null;
+
+  const submit = () => {
+    if (!path.trim() || error) return;
+    if (action.type === "createKey") onCreateKey(path);
+    else if (action.type === "createNamespace") onCreateNamespace(path);
+    else onDuplicate(action.sourcePath, path);
+    onClose();
+  };
+
+  return (
+    <DialogContent className="sm:max-w-md bg-card">
+      <DialogHeader>
+        <DialogTitle>{TITLES[action.type]}</DialogTitle>
+        <DialogDescription>
+          {action.type === "duplicate" ? (
+            <>
+              Copies every value of{" "}
+              <code className="font-mono">{action.sourcePath}</code> to a new
+              key.
+            </>
+          ) : action.type === "createKey" ? (
+            "The key starts out empty in every language. Use dots to nest it in namespaces."
+          ) : (
+            "An empty namespace to add keys to. Use dots to nest it."
+          )}
+        </DialogDescription>
+      </DialogHeader>
+      <form
+        className="space-y-2 py-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          submit();
+        }}
+      >
+        <label className="text-sm font-medium">Full path</label>
+        <Input
+          autoFocus
+          value={path}
+          onChange={(e) => setPath(e.target.value)}
+          placeholder="namespace.key"
+          className="font-mono"
+        />
+        {error && <p className="text-xs text-destructive">{error}</p>}
+      </form>
+      <DialogFooter>
+        <Button variant="outline" onClick={onClose}>
+          Cancel
+        </Button>
+        <Button onClick={submit} disabled={!path.trim() || !!error}>
+          {action.type === "duplicate" ? "Duplicate" : "Create"}
+        </Button>
+      </DialogFooter>
+    </DialogContent>
+  );
+};
+
+// Shipped apps keep asking for the old path, so a rename can leave it behind
+const KeepAliasOption = ({
+  path,
+  checked,
+  onCheckedChange,
+}: {
+  path: string;
+  checked: boolean;
+  onCheckedChange: (checked: boolean) => void;
+}) => (
+  <label className="flex items-center gap-2 text-sm">
+    <Checkbox
+      checked={checked}
+      onCheckedChange={(value) => onCheckedChange(value === true)}
+    />
+    Keep <code className="font-mono text-xs">{path}</code> as an alias
+  </label>
+);
+
+const MAX_SUGGESTIONS = 8;
+
+// Every namespace path, for picking a destination
+const listNamespaces = (node: TranslationNode, prefix = ""): string[] =>
+  Object.entries(node).flatMap(([key, child]) => {
+    if (child.kind === "entry") return [];
+    const path = prefix ? `${prefix}.${key}` : key;
+    return [path, ...listNamespaces(child.children, path)];
+  });
+
+const MoveForm = ({
+  path: fromPath,
+  translations,
+  onClose,
+  onMove,
+}: {
+  path: string;
+  translations: TranslationNode;
+  onClose: () => void;
+  onMove: (fromPath: string, toPath: string, options: MoveOptions) => void;
+}) => {
+  const { parentKeys, lastKey } = splitPath(fromPath);
+  const [parent, setParent] = useState(parentKeys.join("."));
+  const [name, setName] = useState(lastKey);
+  const [showSuggestions, setShowSuggestions] = useState(false);
+  const [keepAlias, setKeepAlias] = useState(false);
+
+  const namespaces = useMemo(
+    () =>
+      listNamespaces(translations).filter(
+        (path) => path !== fromPath && !path.startsWith(fromPath + ".")
+      ),
+    [translations, fromPath]
+  );
+  const suggestions = namespaces
+    .filter((path) => path.toLowerCase().includes(parent.trim().toLowerCase()))
+    .slice(0, MAX_SUGGESTIONS);
+
+  const toPath = parent.trim() ? `${parent.trim()}.${name}` : name;
+  const error = name.trim()
+    ? getMoveKeyError(translations, fromPath, toPath)
+    : "Enter a name";
+
+  const submit = () => {
+    if (error) return;
+    onMove(fromPath, toPath, { keepAlias });
+    onClose();
+  };
+
+  return (
+    <DialogContent className="sm:max-w-md bg-card">
+      <DialogHeader>
+        <DialogTitle>Move to…</DialogTitle>
+        <DialogDescription>
+          Moves <code className="font-mono">{fromPath}</code>
+          {getNodeAt(translations, fromPath)?.kind === "namespace" &&
+            " and everything in it"}{" "}
+          to another namespace.
+        </DialogDescription>
+      </DialogHeader>
+      <form
+        className="space-y-3 py-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          submit();
+        }}
+      >
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Namespace</label>
+          <div className="relative">
+            <Input
+              autoFocus
+              value={parent}
+              onChange={(e) => {
+                setParent(e.target.value);
+                setShowSuggestions(true);
+              }}
+              onFocus={() => setShowSuggestions(true)}
+              onBlur={() => setShowSuggestions(false)}
+              placeholder="(top level)"
+              className="font-mono"
+            />
+            {showSuggestions && suggestions.length > 0 && (
+              <ul className="absolute z-50 mt-1 w-full max-h-56 overflow-y-auto rounded-md border border-border bg-popover shadow-md text-sm">
+                {suggestions.map((path) => (
+                  <li key={path}>
+                    <button
+                      type="button"
+                      className={cn(
+                        "w-full text-left px-3 py-1.5 font-mono hover:bg-muted",
+                        path === parent && "bg-muted"
+                      )}
+                      // Keeps the input from blurring before the click lands
+                      onMouseDown={(e) => e.preventDefault()}
+                      onClick={() => {
+                        setParent(path);
+                        setShowSuggestions(false);
+                      }}
+                    >
+                      {path}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Name</label>
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className="font-mono"
+          />
+        </div>
+        <p className="text-xs text-muted-foreground">
+          New path: <code className="font-mono">{toPath || "—"}</code>
+        </p>
+        {error && toPath !== fromPath && (
+          <p className="text-xs text-destructive">{error}</p>
+        )}
+        <KeepAliasOption
+          path={fromPath}
+          checked={keepAlias}
+          onCheckedChange={setKeepAlias}
+        />
+      </form>
+      <DialogFooter>
+        <Button variant="outline" onClick={onClose}>
+          Cancel
+        </Button>
+        <Button onClick={submit} disabled={!!error}>
+          Move
+        </Button>
+      </DialogFooter>
+    </DialogContent>
+  );
+};
+
+const MAX_PREVIEW = 50;
+
+// A node's own path and every path below it
+const listDescendants = (node: TranslationTreeNode, path: string): string[] =>
+  node.kind === "entry"
+    ? [path]
+    : [
+        path,
+        ...Object.entries(node.children).flatMap(([key, child]) =>
+          listDescendants(child, `${path}.${key}`)
+        ),
+      ];
+
+const RenameForm = ({
+  path: fromPath,
+  translations,
+  onClose,
+  onRename,
+}: {
+  path: string;
+  translations: TranslationNode;
+  onClose: () => void;
+  onRename: (keyPath: string, newName: string, options: MoveOptions) => void;
+}) => {
+  const { parentKeys, lastKey } = splitPath(fromPath);
+  const [name, setName] = useState(lastKey);
+  const [keepAlias, setKeepAlias] = useState(false);
+  const node = getNodeAt(translations, fromPath);
+  const isNamespace = node?.kind === "namespace";
+
+  const toPath = [...parentKeys, name].join(".");
+  const isUnchanged = name === lastKey;
+  const existing = isUnchanged ? undefined : getNodeAt(translations, toPath);
+  const error = isUnchanged
+    ? null
+    : getKeyNameError(name) ??
+      getMoveKeyError(translations, fromPath, toPath, !!existing);
+  const overwritten = useMemo(
+    () =>
+      new Set(
+        existing && !error
+          ? planMerge(translations, fromPath, toPath).overwritten
+          : []
+      ),
+    [translations, fromPath, toPath, existing, error]
+  );
+
+  const changes = useMemo(
+    () => (node ? listDescendants(node, fromPath) : []),
+    [node, fromPath]
+  );
+
+  const submit = () => {
+    if (isUnchanged || error) return;
+    onRename(fromPath, name, { merge: !!existing, keepAlias });
+    onClose();
+  };
+
+  return (
+    <DialogContent className="sm:max-w-lg bg-card">
+      <DialogHeader>
+        <DialogTitle>Rename {isNamespace ? "namespace" : "key"}</DialogTitle>
+        <DialogDescription className="font-mono text-sm bg-muted px-3 py-2 rounded-md mt-2">
+          Current: {fromPath}
+        </DialogDescription>
+      </DialogHeader>
+      <form
+        className="space-y-3 py-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          submit();
+        }}
+      >
+        <label className="text-sm font-medium">New name</label>
+        <Input
+          autoFocus
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          className="font-mono"
+        />
+        {error && <p className="text-xs text-destructive">{error}</p>}
+        {existing && !error && (
+          <div className="rounded-md border border-warning/40 bg-warning/10 px-3 py-2 text-xs text-warning">
+            <code className="font-mono">{toPath}</code> already exists. Merging
+            adds {isNamespace ? "these keys to it" : "this key's values to it"}
+            {overwritten.size > 0 &&
+              `; ${overwritten.size} key${
+                overwritten.size !== 1 ? "s" : ""
+              } on both sides take the renamed values where those aren't empty`}
+            .
+          </div>
+        )}
+        {!isUnchanged && !error && (
+          <div className="space-y-1">
+            <p className="text-xs font-medium text-muted-foreground">
+              {changes.length} path{changes.length !== 1 ? "s" : ""} will
+              change
+            </p>
+            <ul className="max-h-48 overflow-y-auto rounded-md border border-border bg-muted/30 px-3 py-2 space-y-1 text-xs font-mono">
+              {changes.slice(0, MAX_PREVIEW).map((path) => {
+                const newPath = toPath + path.slice(fromPath.length);
+                return (
+                  <li key={path} className="truncate">
+                    <span className="text-muted-foreground">{path}</span>
+                    {" → "}
+                    <span
+                      className={cn(
+                        overwritten.has(newPath) && "text-warning font-medium"
+                      )}
+                    >
+                      {newPath}
+                    </span>
+                  </li>
+                );
+              })}
+              {changes.length > MAX_PREVIEW && (
+                <li className="text-muted-foreground">
+                  …and {changes.length - MAX_PREVIEW} more
+                </li>
+              )}
+            </ul>
+          </div>
+        )}
+        <KeepAliasOption
+          path={fromPath}
+          checked={keepAlias}
+          onCheckedChange={setKeepAlias}
+        />
+      </form>
+      <DialogFooter>
+        <Button variant="outline" onClick={onClose}>
+          Cancel
+        </Button>
+        <Button onClick={submit} disabled={isUnchanged || !!error}>
+          {existing ? "Merge" : "Rename"}
+        </Button>
+      </DialogFooter>
+    </DialogContent>
+  );
+};
+
+export const KeyActionDialog = ({
+  action,
+  translations,
+  onClose,
+  onMove,
+  onRename,
+  onDelete,
+  ...handlers
+}: KeyActionDialogProps) => {
+  const deleteNode =
+    action?.type === "delete" ? getNodeAt(translations, action.path) : undefined;
+  const deletedKeys =
+    deleteNode?.kind === "namespace"
+      ? listEntries(deleteNode.children).length
+      : 1;
+
+  return (
+    <>
+      <Dialog
+        open={!!action && action.type !== "delete"}
+        onOpenChange={(open) => !open && onClose()}
+      >
+        {action?.type === "move" && (
+          <MoveForm
+            key={action.path}
+            path={action.path}
+            translations={translations}
+            onClose={onClose}
+            onMove={onMove}
+          />
+        )}
+        {action?.type === "rename" && (
+          <RenameForm
+            key={action.path}
+            path={action.path}
+            translations={translations}
+            onClose={onClose}
+            onRename={onRename}
+          />
+        )}
+        {action &&
+          action.type !== "delete" &&
+          action.type !== "move" &&
+          action.type !== "rename" && (
+            <PathForm
+              key={JSON.stringify(action)}
+              action={action}
+              translations={translations}
+              onClose={onClose}
+              {...handlers}
+            />
+          )}
+      </Dialog>
+
+      <AlertDialog
+        open={action?.type === "delete"}
+        onOpenChange={(open) => !open && onClose()}
+      >
+        <AlertDialogContent className="bg-card">
+          <AlertDialogHeader>
+            <AlertDialogTitle className="text-lg">
+              Delete {deleteNode?.kind === "namespace" ? "namespace" : "key"}?
+            </AlertDialogTitle>
+            <AlertDialogDescription className="text-base">
+              <code className="font-mono">
+                {action?.type === "delete" && action.path}
+              </code>
+              {deleteNode?.kind === "namespace" &&
+                ` and the ${deletedKeys} key${
+                  deletedKeys !== 1 ? "s" : ""
+                } in it`}{" "}
+              will be removed when you save. Until then you can undo or
+              discard it.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (action?.type === "delete") onDelete(action.path);
+              }}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
@@ -0,0 +1,36 @@
+import type { LoadError } from "@/hooks/useTranslations";
+
+interface LoadErrorDetailsProps {
+  error: LoadError;
+}
+
+const MAX_ISSUES = 50;
+
+export const LoadErrorDetails = ({ error }: LoadErrorDetailsProps) => {
+  if (error.issues.length === 0) return null;
+
+  const shown = error.issues.slice(0, MAX_ISSUES);
+  return (
+    <div className="space-y-2">
+      <p className="text-sm font-medium">
+        {error.issues.length} problem{error.issues.length !== 1 ? "s" : ""}{" "}
+        found in the response
+      </p>
+      <ul className="max-h-56 overflow-auto rounded-md border border-border divide-y divide-border text-sm">
+        {shown.map((issue, index) => (
+          <li key={index} className="px-3 py-2 flex flex-col gap-0.5">
+            <code className="font-mono text-xs text-destructive break-all">
+              {issue.path || "(response)"}
+            </code>
+            <span className="text-muted-foreground">{issue.message}</span>
+          </li>
+        ))}
+        {error.issues.length > shown.length && (
+          <li className="px-3 py-2 text-xs text-muted-foreground">
+            …and {error.issues.length - shown.length} more
+          </li>
+        )}
+      </ul>
+    </div>
+  );
+};
@@ -0,0 +1,151 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  DEFAULT_MOBILE_SEPARATORS,
+  MobileExportOptions,
+  MobilePlatform,
+  PlatformKeyCollision,
+  toPlatformKey,
+} from "@/lib/formats/platformKeys";
+
+interface MobileExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  options: MobileExportOptions;
+  onOptionsChange: (options: MobileExportOptions) => void;
+  sampleKey?: string;
+  onExport: (options: MobileExportOptions) => void;
+  getCollisions: (options: MobileExportOptions) => PlatformKeyCollision[];
+}
+
+const MAX_COLLISIONS = 5;
+
+const LAYOUTS: Record<MobilePlatform, string> = {
+  android: "res/values-xx/strings.xml",
+  ios: "xx.lproj/Localizable.strings (+ .stringsdict)",
+};
+
+export const MobileExportDialog = ({
+  open,
+  onOpenChange,
+  options,
+  onOptionsChange,
+  sampleKey = "common.welcome",
+  onExport,
+  getCollisions,
+}: MobileExportDialogProps) => {
+  const separatorValid = /^[A-Za-z0-9_.]+$/.test(options.separator);
+  const collisions: PlatformKeyCollision[] =
+    open && separatorValid ? getCollisions(options) : [];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md bg-card">
+        <DialogHeader>
+          <DialogTitle>Export for mobile</DialogTitle>
+          <DialogDescription>
+            Downloads a zip with one strings file per language in the
+            platform's folder layout.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid grid-cols-2 gap-4 py-2">
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Platform</label>
+            <Select
+              value={options.platform}
+              onValueChange={(platform) =>
+                onOptionsChange({
+                  platform: platform as MobilePlatform,
+                  separator: DEFAULT_MOBILE_SEPARATORS[platform as MobilePlatform],
+                })
+              }
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="android">Android</SelectItem>
+                <SelectItem value="ios">iOS</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Key separator</label>
+            <Input
+              value={options.separator}
+              onChange={(e) =>
+                onOptionsChange({ ...options, separator: e.target.value })
+              }
+              className="font-mono"
+              maxLength={3}
+            />
+          </div>
+          <div className="col-span-2 space-y-1 text-xs text-muted-foreground">
+            <p>
+              <code>{sampleKey}</code> →{" "}
+              <code>
+                {separatorValid
+                  ? toPlatformKey(sampleKey, options.separator, options.platform)
+                  : "?"}
+              </code>
+            </p>
+            <p>
+              Layout: <code>{LAYOUTS[options.platform]}</code>
+            </p>
+          </div>
+          {collisions.length > 0 && (
+            <div className="col-span-2 space-y-1 rounded-md border border-destructive/30 bg-destructive/5 p-3 text-xs">
+              <p className="font-medium text-destructive">
+                {collisions.length} string name
+                {collisions.length !== 1 ? "s are" : " is"} shared by several
+                keys. Rename the keys or pick another separator.
+              </p>
+              <ul className="space-y-1 max-h-32 overflow-auto scrollbar-thin">
+                {collisions.slice(0, MAX_COLLISIONS).map(({ key, keyPaths }) => (
+                  <li key={key} className="break-all">
+                    <code>{key}</code> ←{" "}
+                    <code>{keyPaths.join(", ")}</code>
+                  </li>
+                ))}
+              </ul>
+              {collisions.length > MAX_COLLISIONS && (
+                <p className="text-muted-foreground">
+                  …and {collisions.length - MAX_COLLISIONS} more
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => {
+              onExport(options);
+              onOpenChange(false);
+            }}
+            disabled={!separatorValid || collisions.length > 0}
+          >
+            Download zip
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,198 @@
+import { useState, useEffect } from "react";
+import { AlertTriangle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { cn } from "@/lib/utils";
+import { CellDiff, SpreadsheetDiff } from "@/lib/formats/spreadsheet";
+
+interface SpreadsheetImportDialogProps {
+  fileName: string;
+  diff: SpreadsheetDiff | null;
+  onOpenChange: (open: boolean) => void;
+  onApply: (cells: CellDiff[]) => void;
+}
+
+const cellId = (cell: CellDiff) => `${cell.keyPath}\u0000${cell.language}`;
+
+const KeyList = ({ title, keys }: { title: string; keys: string[] }) => (
+  <details className="text-sm">
+    <summary className="cursor-pointer text-muted-foreground">
+      {title} ({keys.length})
+    </summary>
+    <div className="mt-2 max-h-24 overflow-y-auto scrollbar-thin font-mono text-xs space-y-0.5 pl-4">
+      {keys.slice(0, 200).map((key) => (
+        <div key={key} className="truncate">
+          {key}
+        </div>
+      ))}
+      {keys.length > 200 && <div>…and {keys.length - 200} more</div>}
+    </div>
+  </details>
+);
+
+export const SpreadsheetImportDialog = ({
+  fileName,
+  diff,
+  onOpenChange,
+  onApply,
+}: SpreadsheetImportDialogProps) => {
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
+  // Conflicts start unticked so local edits are never overwritten by accident
+  useEffect(() => {
+    setSelected(
+      new Set(
+        diff?.cells.filter((c) => c.status === "changed").map(cellId) ?? []
+      )
+    );
+  }, [diff]);
+
+  if (!diff) return null;
+
+  const conflictCount = diff.cells.filter((c) => c.status === "conflict").length;
+  const selectedCells = diff.cells.filter((c) => selected.has(cellId(c)));
+
+  const toggle = (cell: CellDiff, checked: boolean) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (checked) next.add(cellId(cell));
+      else next.delete(cellId(cell));
+      return next;
+    });
+  };
+
+  return (
+    <Dialog open onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-4xl bg-card">
+        <DialogHeader>
+          <DialogTitle>Review spreadsheet changes</DialogTitle>
+          <DialogDescription>
+            <span className="font-mono">{fileName}</span> — pick the cells to
+            apply. They become unsaved changes you can still review or undo.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-2 flex-wrap">
+          <Badge variant="secondary">{diff.cells.length} changed cells</Badge>
+          {conflictCount > 0 && (
+            <Badge variant="destructive">{conflictCount} conflicts</Badge>
+          )}
+          {diff.unknownKeys.length > 0 && (
+            <Badge variant="outline">{diff.unknownKeys.length} unknown keys</Badge>
+          )}
+          {diff.missingKeys.length > 0 && (
+            <Badge variant="outline">{diff.missingKeys.length} missing keys</Badge>
+          )}
+        </div>
+
+        {(diff.unknownLanguages.length > 0 || diff.missingLanguages.length > 0) && (
+          <div className="flex items-center gap-2 text-sm text-warning">
+            <AlertTriangle className="w-4 h-4" />
+            {diff.unknownLanguages.length > 0 &&
+              `Ignored columns: ${diff.unknownLanguages.join(", ")}. `}
+            {diff.missingLanguages.length > 0 &&
+              `No column for: ${diff.missingLanguages
+                .map((l) => l.toUpperCase())
+                .join(", ")}.`}
+          </div>
+        )}
+
+        <div className="border border-border rounded-lg max-h-96 overflow-auto scrollbar-thin">
+          {diff.cells.length === 0 ? (
+            <p className="p-6 text-center text-sm text-muted-foreground">
+              No cell differs from the project.
+            </p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead className="sticky top-0 bg-table-header">
+                <tr className="text-left text-muted-foreground">
+                  <th className="w-10 px-3 py-2">
+                    <Checkbox
+                      checked={selectedCells.length === diff.cells.length}
+                      onCheckedChange={(checked) =>
+                        setSelected(
+                          new Set(checked ? diff.cells.map(cellId) : [])
+                        )
+                      }
+                    />
+                  </th>
+                  <th className="px-3 py-2">Key</th>
+                  <th className="px-3 py-2">Lang</th>
+                  <th className="px-3 py-2">Current</th>
+                  <th className="px-3 py-2">Spreadsheet</th>
+                </tr>
+              </thead>
+              <tbody>
+                {diff.cells.map((cell) => (
+                  <tr
+                    key={cellId(cell)}
+                    className={cn(
+                      "border-t border-table-border align-top",
+                      cell.status === "conflict" && "bg-destructive/5"
+                    )}
+                  >
+                    <td className="px-3 py-2">
+                      <Checkbox
+                        checked={selected.has(cellId(cell))}
+                        onCheckedChange={(checked) => toggle(cell, checked === true)}
+                      />
+                    </td>
+                    <td className="px-3 py-2 font-mono text-xs break-all">
+                      {cell.keyPath}
+                      {cell.reason && (
+                        <div className="flex items-center gap-1 mt-1 text-destructive font-sans">
+                          <AlertTriangle className="w-3 h-3 flex-shrink-0" />
+                          {cell.reason}
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-3 py-2 font-mono uppercase text-xs">
+                      {cell.language}
+                    </td>
+                    <td className="px-3 py-2 text-muted-foreground line-through break-words">
+                      {cell.current || <em className="no-underline">empty</em>}
+                    </td>
+                    <td className="px-3 py-2 text-success break-words">
+                      {cell.incoming}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div className="space-y-1">
+          {diff.unknownKeys.length > 0 && (
+            <KeyList title="Unknown keys (skipped)" keys={diff.unknownKeys} />
+          )}
+          {diff.missingKeys.length > 0 && (
+            <KeyList title="Missing from the spreadsheet" keys={diff.missingKeys} />
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => onApply(selectedCells)}
+            disabled={selectedCells.length === 0}
+          >
+            Apply {selectedCells.length} change
+            {selectedCells.length !== 1 ? "s" : ""}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,4 +1,13 @@
-import { useState, useMemo, useCallback, Fragment } from "react";
+import {
+  useState,
+  useMemo,
+  useCallback,
+  useRef,
+  useEffect,
+  useLayoutEffect,
+  memo,
+} from "react";
+import { defaultRangeExtractor, useVirtualizer } from "@tanstack/react-virtual";
 import {
   Copy,
   Check,
@@ -6,10 +15,11 @@ import {
   ChevronRight,
   Eye,
   Pencil,
-  X,
   Save,
   Code,
   Table,
+  CopyPlus,
+  Trash2,
 } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
@@ -17,6 +27,9 @@ import { Badge } from "@/components/ui/badge";
 import { Textarea } from "@/components/ui/textarea";
 import { TreeNode, UnsavedChange } from "@/types/translation";
 import { cn } from "@/lib/utils";
+import { createLeafFlattener } from "@/lib/translationTree";
+import { useRetainedFocus, withRetainedIndex } from "@/hooks/useRetainedFocus";
+import type { KeyAction } from "./KeyActionDialog";
 import { toast } from "sonner";
 import {
   Dialog,
@@ -32,6 +45,8 @@ interface TranslationEditorProps {
   languages: string[];
   selectedPath: string | null;
   searchQuery: string;
+  // Leaf paths matching searchQuery, or null without a search
+  searchMatches: Set<string> | null;
   missingFilter: string[];
   unsavedChanges: UnsavedChange[];
   onUpdateTranslation: (
@@ -39,35 +54,61 @@ interface TranslationEditorProps {
     language: string,
     value: string
   ) => void;
-  onRenameKey?: (oldPath: string, newKey: string) => void;
+  onEndEdit?: () => void;
   onBulkUpdate?: (
-    updates: { keyPath: string; language: string; value: string }[]
+    updates: { keyPath: string; language: string; value: string }[],
+    label?: string
   ) => void;
+  onKeyAction?: (action: KeyAction) => void;
 }
 
+// Rows and namespace headers share one virtualized list
+type TableItem =
+  | { type: "group"; namespace: string; count: number }
+  | { type: "row"; node: TreeNode };
+
+const HEADER_HEIGHT = 58;
+const GROUP_ROW_HEIGHT = 45;
+const ROW_HEIGHT = 73;
+
+// Input focus keys are "<language>:<key path>"; language codes never contain ":"
+const focusKeyFor = (language: string, keyPath: string) =>
+  `${language}:${keyPath}`;
+const keyPathOfFocusKey = (focusKey: string) =>
+  focusKey.slice(focusKey.indexOf(":") + 1);
+
 interface TranslationRowProps {
   node: TreeNode;
+  index: number;
+  measureRef: (element: HTMLTableRowElement | null) => void;
   languages: string[];
-  unsavedChanges: UnsavedChange[];
+  // Languages with unsaved edits for this key only, so other rows can skip rendering
+  changedLanguages?: Set<string>;
   onUpdateTranslation: (
     keyPath: string,
     language: string,
     value: string
   ) => void;
+  onEndEdit?: () => void;
   isHighlighted: boolean;
   onPreview: (node: TreeNode) => void;
-  onEditKey: (node: TreeNode) => void;
+  onKeyAction?: (action: KeyAction) => void;
 }
 
-const TranslationRow = ({
+const NO_CHANGES = new Set<string>();
+
+const TranslationRow = memo(function TranslationRow({
   node,
+  index,
+  measureRef,
   languages,
-  unsavedChanges,
+  changedLanguages = NO_CHANGES,
   onUpdateTranslation,
+  onEndEdit,
   isHighlighted,
   onPreview,
-  onEditKey,
-}: TranslationRowProps) => {
+  onKeyAction,
+}: TranslationRowProps) {
   const [copiedKey, setCopiedKey] = useState<string | null>(null);
 
   const copyToClipboard = async (text: string, key: string) => {
@@ -77,9 +118,6 @@ const TranslationRow = ({
     setTimeout(() => setCopiedKey(null), 2000);
   };
 
-  const hasChanges = (lang: string) =>
-    unsavedChanges.some((c) => c.keyPath === node.path && c.language === lang);
-
   const getMissingLanguages = () =>
     languages.filter((lang) => !node.values?.[lang]?.trim());
 
@@ -88,6 +126,8 @@ const TranslationRow = ({
 
   return (
     <tr
+      ref={measureRef}
+      data-index={index}
       className={cn(
         "border-b border-table-border transition-colors",
         "hover:bg-table-row-hover",
@@ -120,15 +160,17 @@ const TranslationRow = ({
             >
               <Eye className="w-4 h-4 text-muted-foreground hover:text-foreground" />
             </Button>
-            <Button
-              variant="ghost"
-              size="icon"
-              className="h-8 w-8"
-              onClick={() => onEditKey(node)}
-              title="Edit key name"
-            >
-              <Pencil className="w-4 h-4 text-muted-foreground hover:text-foreground" />
-            </Button>
+            {onKeyAction && (
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                onClick={() => onKeyAction({ type: "rename", path: node.path })}
+                title="Rename key"
+              >
+                <Pencil className="w-4 h-4 text-muted-foreground hover:text-foreground" />
+              </Button>
+            )}
             <Button
               variant="ghost"
               size="icon"
@@ -142,6 +184,30 @@ const TranslationRow = ({
                 <Copy className="w-4 h-4 text-muted-foreground hover:text-foreground" />
               )}
             </Button>
+            {onKeyAction && (
+              <>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={() =>
+                    onKeyAction({ type: "duplicate", sourcePath: node.path })
+                  }
+                  title="Duplicate key"
+                >
+                  <CopyPlus className="w-4 h-4 text-muted-foreground hover:text-foreground" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={() => onKeyAction({ type: "delete", path: node.path })}
+                  title="Delete key"
+                >
+                  <Trash2 className="w-4 h-4 text-muted-foreground hover:text-destructive" />
+                </Button>
+              </>
+            )}
           </div>
         </div>
       </td>
@@ -149,7 +215,7 @@ const TranslationRow = ({
       {languages.map((lang) => {
         const value = node.values?.[lang] || "";
         const isMissing = !value.trim();
-        const isChanged = hasChanges(lang);
+        const isChanged = changedLanguages.has(lang);
 
         return (
           <td
@@ -158,10 +224,12 @@ const TranslationRow = ({
           >
             <div className="relative group">
               <Input
+                data-focus-key={focusKeyFor(lang, node.path)}
                 value={value}
                 onChange={(e) =>
                   onUpdateTranslation(node.path, lang, e.target.value)
                 }
+                onBlur={onEndEdit}
                 placeholder={`Enter ${lang.toUpperCase()} translation...`}
                 className={cn(
                   "h-10 text-sm pr-10 font-normal",
@@ -190,43 +258,55 @@ const TranslationRow = ({
       })}
     </tr>
   );
-};
+});
 
 export const TranslationEditor = ({
   tree,
   languages,
   selectedPath,
   searchQuery,
+  searchMatches,
   missingFilter,
   unsavedChanges,
   onUpdateTranslation,
-  onRenameKey,
+  onEndEdit,
   onBulkUpdate,
+  onKeyAction,
 }: TranslationEditorProps) => {
   const [previewNode, setPreviewNode] = useState<TreeNode | null>(null);
-  const [editKeyNode, setEditKeyNode] = useState<TreeNode | null>(null);
-  const [newKeyName, setNewKeyName] = useState("");
   const [viewMode, setViewMode] = useState<"table" | "json">("table");
   const [jsonContent, setJsonContent] = useState("");
   const [jsonError, setJsonError] = useState<string | null>(null);
 
   // Flatten tree to get all leaf nodes
-  const flattenedNodes = useMemo(() => {
-    const nodes: TreeNode[] = [];
-
-    const flatten = (items: TreeNode[]) => {
-      items.forEach((item) => {
-        if (item.isLeaf) {
-          nodes.push(item);
-        } else if (item.children) {
-          flatten(item.children);
-        }
-      });
-    };
+  const [flattenLeaves] = useState(createLeafFlattener);
+  const flattenedNodes = useMemo(
+    () => flattenLeaves(tree),
+    [flattenLeaves, tree]
+  );
 
-    flatten(tree);
-    return nodes;
-  }, [tree]);
+  const changedLanguagesByPath = useMemo(() => {
+    const byPath = new Map<string, Set<string>>();
+    unsavedChanges.forEach(({ keyPath, language }) => {
+      const languages = byPath.get(keyPath) ?? new Set<string>();
+      languages.add(language);
+      byPath.set(keyPath, languages);
+    });
+    return byPath;
+  }, [unsavedChanges]);
+
+  // The handlers change with every edit; rows get stable wrappers so only the
+  // row whose values changed re-renders
+  const handlersRef = useRef({ onUpdateTranslation, onEndEdit });
+  useLayoutEffect(() => {
+    handlersRef.current = { onUpdateTranslation, onEndEdit };
+  });
+  const handleUpdateTranslation = useCallback(
+    (keyPath: string, language: string, value: string) =>
+      handlersRef.current.onUpdateTranslation(keyPath, language, value),
+    []
+  );
+  const handleEndEdit = useCallback(() => handlersRef.current.onEndEdit?.(), []);
 
   function copyObjectToClipboard(obj: any) {
     try {
@@ -239,6 +319,10 @@ export const TranslationEditor = ({
     }
   }
 
+  const { containerRef, containerProps, focusKey, hasFocus } =
+    useRetainedFocus<HTMLDivElement>();
+  const editingPath = hasFocus && focusKey ? keyPathOfFocusKey(focusKey) : null;
+
   // Filter nodes based on search, selection, and missing filter
   const filteredNodes = useMemo(() => {
     let filtered = flattenedNodes;
@@ -251,17 +335,9 @@ export const TranslationEditor = ({
       );
     }
 
-    // Filter by search query
-    if (searchQuery.trim()) {
-      const query = searchQuery.toLowerCase();
-      filtered = filtered.filter(
-        (node) =>
-          node.path.toLowerCase().includes(query) ||
-          (node.values &&
-            Object.values(node.values).some((v) =>
-              v.toLowerCase().includes(query)
-            ))
-      );
+    // Filter by search query (matched by the index worker)
+    if (searchMatches) {
+      filtered = filtered.filter((node) => searchMatches.has(node.path));
     }
 
     // Filter by missing translations
@@ -271,8 +347,19 @@ export const TranslationEditor = ({
       });
     }
 
+    // The row being edited stays until it loses focus, even once the edit
+    // means it no longer matches
+    const editing =
+      editingPath && flattenedNodes.find((node) => node.path === editingPath);
+    if (editing && !filtered.includes(editing)) {
+      const kept = new Set(filtered);
+      filtered = flattenedNodes.filter(
+        (node) => node === editing || kept.has(node)
+      );
+    }
+
     return filtered;
-  }, [flattenedNodes, selectedPath, searchQuery, missingFilter]);
+  }, [flattenedNodes, selectedPath, searchMatches, missingFilter, editingPath]);
 
   // Group by namespace for better organization
   const groupedNodes = useMemo(() => {
@@ -291,32 +378,96 @@ export const TranslationEditor = ({
     return groups;
   }, [filteredNodes]);
 
-  const namespaces = Object.keys(groupedNodes).sort();
+  const items = useMemo(() => {
+    const namespaces = Object.keys(groupedNodes).sort();
+    return namespaces.flatMap((namespace): TableItem[] => [
+      ...(namespaces.length > 1
+        ? [
+            {
+              type: "group" as const,
+              namespace,
+              count: groupedNodes[namespace].length,
+            },
+          ]
+        : []),
+      ...groupedNodes[namespace].map((node) => ({
+        type: "row" as const,
+        node,
+      })),
+    ]);
+  }, [groupedNodes]);
+
+  const itemIndex = useMemo(
+    () =>
+      new Map(
+        items.flatMap((item, index) =>
+          item.type === "row" ? [[item.node.path, index] as const] : []
+        )
+      ),
+    [items]
+  );
+  const editingIndex = editingPath ? itemIndex.get(editingPath) : undefined;
+
+  const virtualizer = useVirtualizer({
+    count: items.length,
+    getScrollElement: () => containerRef.current,
+    estimateSize: (index) =>
+      items[index].type === "group" ? GROUP_ROW_HEIGHT : ROW_HEIGHT,
+    getItemKey: (index) => {
+      const item = items[index];
+      return item.type === "group" ? `group:${item.namespace}` : item.node.path;
+    },
+    overscan: 8,
+    paddingStart: HEADER_HEIGHT,
+    scrollPaddingStart: HEADER_HEIGHT,
+    rangeExtractor: (range) =>
+      withRetainedIndex(defaultRangeExtractor(range), editingIndex),
+  });
+
+  // Key path of the first row on screen, so re-filtering can keep the view
+  // where it was instead of jumping by pixel offset
+  const anchorRef = useRef<string | null>(null);
+  const handleScroll = useCallback(() => {
+    const startIndex = virtualizer.range?.startIndex;
+    const item = startIndex !== undefined ? items[startIndex] : undefined;
+    anchorRef.current = item?.type === "row" ? item.node.path : null;
+  }, [items, virtualizer]);
+
+  const filterRef = useRef({ selectedPath, searchQuery, missingFilter });
+  useEffect(() => {
+    const previous = filterRef.current;
+    if (
+      previous.selectedPath === selectedPath &&
+      previous.searchQuery === searchQuery &&
+      previous.missingFilter === missingFilter
+    ) {
+      return;
+    }
+    filterRef.current = { selectedPath, searchQuery, missingFilter };
+
+    // Selecting another namespace starts at its top (or at the selected key);
+    // search and missing filters keep the focused, highlighted or top row in view
+    const highlighted = selectedPath ? itemIndex.get(selectedPath) : undefined;
+    if (editingIndex !== undefined) {
+      virtualizer.scrollToIndex(editingIndex, { align: "auto" });
+    } else if (highlighted !== undefined) {
+      virtualizer.scrollToIndex(highlighted, { align: "auto" });
+    } else if (previous.selectedPath !== selectedPath) {
+      virtualizer.scrollToOffset(0);
+    } else {
+      const anchor = anchorRef.current
+        ? itemIndex.get(anchorRef.current)
+        : undefined;
+      if (anchor !== undefined) {
+        virtualizer.scrollToIndex(anchor, { align: "start" });
+      }
+    }
+  }, [selectedPath, searchQuery, missingFilter, itemIndex, editingIndex, virtualizer]);
 
   const handlePreview = useCallback((node: TreeNode) => {
     setPreviewNode(node);
   }, []);
 
-  const handleEditKey = useCallback((node: TreeNode) => {
-    setEditKeyNode(node);
-    const lastKey = node.path.split(".").pop() || "";
-    setNewKeyName(lastKey);
-  }, []);
-
-  const handleSaveKeyName = useCallback(() => {
-    if (!editKeyNode || !newKeyName.trim()) return;
-
-    if (onRenameKey) {
-      onRenameKey(editKeyNode.path, newKeyName.trim());
-      toast.success("Key renamed successfully");
-    } else {
-      toast.info("Key renaming will be available after saving");
-    }
-
-    setEditKeyNode(null);
-    setNewKeyName("");
-  }, [editKeyNode, newKeyName, onRenameKey]);
-
   // Build JSON structure from filtered nodes
   const buildJsonFromNodes = useCallback(
     (nodes: TreeNode[]) => {
@@ -365,10 +516,19 @@ export const TranslationEditor = ({
         return;
       }
 
-      // Apply updates
-      updates.forEach(({ keyPath, language, value }) => {
-        onUpdateTranslation(keyPath, language, value);
-      });
+      // Apply updates as a single step
+      if (onBulkUpdate) {
+        onBulkUpdate(
+          updates,
+          `Apply ${updates.length} change${
+            updates.length !== 1 ? "s" : ""
+          } from JSON console`
+        );
+      } else {
+        updates.forEach(({ keyPath, language, value }) => {
+          onUpdateTranslation(keyPath, language, value);
+        });
+      }
 
       toast.success(`Applied ${updates.length} change(s)`);
       setJsonError(null);
@@ -376,7 +536,7 @@ export const TranslationEditor = ({
       setJsonError("Invalid JSON format. Please fix the syntax errors.");
       toast.error("Invalid JSON format");
     }
-  }, [jsonContent, filteredNodes, onUpdateTranslation]);
+  }, [jsonContent, filteredNodes, onUpdateTranslation, onBulkUpdate]);
 
   // Validate JSON as user types
   const handleJsonChange = useCallback((value: string) => {
@@ -389,6 +549,16 @@ export const TranslationEditor = ({
     }
   }, []);
 
+  // The table keeps its own rows; spacer rows above and below stand in for the
+  // ones that aren't rendered
+  const virtualItems = virtualizer.getVirtualItems();
+  const paddingTop =
+    virtualItems.length > 0 ? virtualItems[0].start - HEADER_HEIGHT : 0;
+  const paddingBottom =
+    virtualItems.length > 0
+      ? virtualizer.getTotalSize() - virtualItems[virtualItems.length - 1].end
+      : 0;
+
   if (flattenedNodes.length === 0) {
     return (
       <div className="flex-1 flex items-center justify-center text-muted-foreground">
@@ -443,7 +613,12 @@ export const TranslationEditor = ({
       </div>
 
       {viewMode === "table" ? (
-        <div className="flex-1 overflow-auto scrollbar-thin">
+        <div
+          ref={containerRef}
+          className="flex-1 overflow-auto scrollbar-thin"
+          onScroll={handleScroll}
+          {...containerProps}
+        >
           <table className="w-full border-collapse">
             <thead className="sticky top-0 z-10 bg-table-header">
               <tr>
@@ -466,38 +641,53 @@ export const TranslationEditor = ({
               </tr>
             </thead>
             <tbody>
-              {namespaces.map((namespace) => (
-                <Fragment key={namespace}>
-                  {namespaces.length > 1 && (
-                    <tr className="bg-muted/30">
+              {paddingTop > 0 && (
+                <tr aria-hidden="true" style={{ height: paddingTop }} />
+              )}
+              {virtualItems.map((virtualItem) => {
+                const item = items[virtualItem.index];
+                if (item.type === "group") {
+                  return (
+                    <tr
+                      key={virtualItem.key}
+                      ref={virtualizer.measureElement}
+                      data-index={virtualItem.index}
+                      className="bg-muted/30"
+                    >
                       <td
                         colSpan={languages.length + 1}
                         className="px-4 py-3 text-sm font-medium text-muted-foreground"
                       >
                         <div className="flex items-center gap-2">
                           <ChevronRight className="w-4 h-4" />
-                          <span className="font-mono">{namespace}</span>
+                          <span className="font-mono">{item.namespace}</span>
                           <span className="ml-2 text-muted-foreground/60">
-                            ({groupedNodes[namespace].length} keys)
+                            ({item.count} keys)
                           </span>
                         </div>
                       </td>
                     </tr>
-                  )}
-                  {groupedNodes[namespace].map((node) => (
-                    <TranslationRow
-                      key={node.path}
-                      node={node}
-                      languages={languages}
-                      unsavedChanges={unsavedChanges}
-                      onUpdateTranslation={onUpdateTranslation}
-                      isHighlighted={selectedPath === node.path}
-                      onPreview={handlePreview}
-                      onEditKey={handleEditKey}
-                    />
-                  ))}
-                </Fragment>
-              ))}
+                  );
+                }
+                return (
+                  <TranslationRow
+                    key={virtualItem.key}
+                    node={item.node}
+                    index={virtualItem.index}
+                    measureRef={virtualizer.measureElement}
+                    languages={languages}
+                    changedLanguages={changedLanguagesByPath.get(item.node.path)}
+                    onUpdateTranslation={handleUpdateTranslation}
+                    onEndEdit={handleEndEdit}
+                    isHighlighted={selectedPath === item.node.path}
+                    onPreview={handlePreview}
+                    onKeyAction={onKeyAction}
+                  />
+                );
+              })}
+              {paddingBottom > 0 && (
+                <tr aria-hidden="true" style={{ height: paddingBottom }} />
+              )}
             </tbody>
           </table>
         </div>
@@ -612,47 +802,6 @@ export const TranslationEditor = ({
           </DialogFooter>
         </DialogContent>
       </Dialog>
-
-      {/* Edit Key Dialog */}
-      <Dialog open={!!editKeyNode} onOpenChange={() => setEditKeyNode(null)}>
-        <DialogContent className="sm:max-w-md">
-          <DialogHeader>
-            <DialogTitle>Edit Key Name</DialogTitle>
-            <DialogDescription className="font-mono text-sm bg-muted px-3 py-2 rounded-md mt-2">
-              Current: {editKeyNode?.path}
-            </DialogDescription>
-          </DialogHeader>
-          <div className="space-y-4 py-4">
-            <div className="space-y-2">
-              <label className="text-sm font-medium">New Key Name</label>
-              <Input
-                value={newKeyName}
-                onChange={(e) => setNewKeyName(e.target.value)}
-                placeholder="Enter new key name..."
-                className="font-mono"
-              />
-              {editKeyNode && (
-                <p className="text-xs text-muted-foreground">
-                  New path will be:{" "}
-                  {editKeyNode.path.split(".").slice(0, -1).join(".") +
-                    "." +
-                    newKeyName}
-                </p>
-              )}
-            </div>
-          </div>
-          <DialogFooter className="gap-2">
-            <Button variant="outline" onClick={() => setEditKeyNode(null)}>
-              <X className="w-4 h-4 mr-2" />
-              Cancel
-            </Button>
-            <Button onClick={handleSaveKeyName} disabled={!newKeyName.trim()}>
-              <Save className="w-4 h-4 mr-2" />
-              Save Changes
-            </Button>
-          </DialogFooter>
-        </DialogContent>
-      </Dialog>
     </>
   );
 };
@@ -1,4 +1,14 @@
-import { useState, useMemo } from "react";
+import {
+  useState,
+  useMemo,
+  useCallback,
+  useEffect,
+  useRef,
+  memo,
+  DragEvent,
+  KeyboardEvent,
+} from "react";
+import { defaultRangeExtractor, useVirtualizer } from "@tanstack/react-virtual";
 import {
   ChevronRight,
   ChevronDown,
@@ -11,11 +21,22 @@ import {
   ChevronsUpDown,
   Filter,
   X,
+  Loader2,
+  Plus,
+  FolderPlus,
+  CopyPlus,
+  FolderInput,
+  Link2,
+  Pencil,
+  Replace,
+  Trash2,
 } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { TreeNode } from "@/types/translation";
+import type { TranslationStats } from "@/workers/protocol";
 import { cn } from "@/lib/utils";
+import { useRetainedFocus, withRetainedIndex } from "@/hooks/useRetainedFocus";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -25,6 +46,17 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { Badge } from "@/components/ui/badge";
+import {
+  ContextMenu,
+  ContextMenuContent,
+  ContextMenuItem,
+  ContextMenuSeparator,
+  ContextMenuSub,
+  ContextMenuSubContent,
+  ContextMenuSubTrigger,
+  ContextMenuTrigger,
+} from "@/components/ui/context-menu";
+import type { KeyAction } from "./KeyActionDialog";
 
 interface TreeViewProps {
   tree: TreeNode[];
@@ -33,146 +65,306 @@ interface TreeViewProps {
   onSelectPath: (path: string | null) => void;
   searchQuery: string;
   onSearchChange: (query: string) => void;
+  // Leaf paths matching searchQuery, or null without a search
+  searchMatches: Set<string> | null;
+  isSearching?: boolean;
+  stats?: TranslationStats | null;
   missingFilter: string[];
   onMissingFilterChange: (languages: string[]) => void;
+  onKeyAction?: (action: KeyAction) => void;
+  // Enables dragging rows onto namespaces
+  onMoveKey?: (fromPath: string, toPath: string) => void;
+  onBulkRename?: () => void;
+  // Old paths that still resolve, mapped to their current key or namespace
+  aliases?: { [aliasPath: string]: string };
+  onRetireAlias?: (aliasPath: string) => void;
 }
 
-interface TreeNodeItemProps {
+interface DropTarget {
+  // The row under the pointer, or null for the empty area below the rows
+  rowPath: string | null;
+  toPath: string;
+  isValid: boolean;
+}
+
+const ROW_HEIGHT = 44;
+const INDENT = 20;
+
+// New keys go into the selected namespace, or next to the selected key
+const parentPathFor = (node: TreeNode) =>
+  node.isLeaf ? node.path.split(".").slice(0, -1).join(".") : node.path;
+
+const findNode = (tree: TreeNode[], path: string) => {
+  let nodes: TreeNode[] | undefined = tree;
+  let found: TreeNode | undefined;
+  for (const key of path.split(".")) {
+    found = nodes?.find((node) => node.key === key);
+    nodes = found?.children;
+  }
+  return found;
+};
+
+// Where a dragged node lands: inside a namespace, next to a key, or at the top level
+const getDropTarget = (
+  tree: TreeNode[],
+  fromPath: string,
+  over: TreeNode | null
+): DropTarget => {
+  const name = fromPath.split(".").pop()!;
+  const parentPath = over ? parentPathFor(over) : "";
+  const toPath = parentPath ? `${parentPath}.${name}` : name;
+  return {
+    rowPath: over?.path ?? null,
+    toPath,
+    isValid:
+      toPath !== fromPath &&
+      parentPath !== fromPath &&
+      !parentPath.startsWith(fromPath + ".") &&
+      !findNode(tree, toPath),
+  };
+};
+
+// A node stays in the filtered tree if it matches or has a matching child or grandchild
+const isFilteredOut = (node: TreeNode, matchingPaths: Set<string>) =>
+  matchingPaths.size > 0 &&
+  !matchingPaths.has(node.path) &&
+  !node.children?.some(
+    (child) =>
+      matchingPaths.has(child.path) ||
+      child.children?.some((grandchild) => matchingPaths.has(grandchild.path))
+  );
+
+interface TreeRowProps {
   node: TreeNode;
-  selectedPath: string | null;
+  isSelected: boolean;
+  isExpanded: boolean;
+  isDimmed: boolean;
+  isTabStop: boolean;
+  isDragging: boolean;
+  // Set while this row is the drop target of a drag
+  dropState?: "valid" | "invalid";
+  // Old paths that lead to this node
+  aliases?: string[];
   onSelectPath: (path: string | null) => void;
-  expandedPaths: Set<string>;
   onToggleExpand: (path: string) => void;
-  matchingPaths: Set<string>;
+  onKeyDown: (event: KeyboardEvent<HTMLDivElement>, node: TreeNode) => void;
+  onKeyAction?: (action: KeyAction) => void;
+  onRetireAlias?: (aliasPath: string) => void;
+  onDragStart?: (event: DragEvent<HTMLDivElement>, node: TreeNode) => void;
+  onDragOver?: (event: DragEvent<HTMLDivElement>, node: TreeNode) => void;
+  onDrop?: (event: DragEvent<HTMLDivElement>, node: TreeNode) => void;
+  onDragEnd?: () => void;
 }
 
-const TreeNodeItem = ({
+const TreeRow = memo(function TreeRow({
   node,
-  selectedPath,
+  isSelected,
+  isExpanded,
+  isDimmed,
+  isTabStop,
+  isDragging,
+  dropState,
+  aliases,
   onSelectPath,
-  expandedPaths,
   onToggleExpand,
-  matchingPaths,
-}: TreeNodeItemProps) => {
-  const isExpanded = expandedPaths.has(node.path);
-  const isSelected = selectedPath === node.path;
-  const isMatching = matchingPaths.has(node.path);
-  const hasMatchingChildren = node.children?.some(
-    (child) =>
-      matchingPaths.has(child.path) ||
-      child.children?.some((grandchild) => matchingPaths.has(grandchild.path))
-  );
-
+  onKeyDown,
+  onKeyAction,
+  onRetireAlias,
+  onDragStart,
+  onDragOver,
+  onDrop,
+  onDragEnd,
+}: TreeRowProps) {
   const completeness = node.completeness || 100;
   const isComplete = completeness === 100;
   const isMissing = completeness < 100;
 
-  if (!isMatching && !hasMatchingChildren && matchingPaths.size > 0) {
-    return null;
-  }
+  const row = (
+    <div
+      role="treeitem"
+      aria-level={node.depth + 1}
+      aria-selected={isSelected}
+      aria-expanded={node.isLeaf ? undefined : isExpanded}
+      tabIndex={isTabStop ? 0 : -1}
+      data-focus-key={node.path}
+      className={cn(
+        "relative flex items-center gap-2 px-3 py-2.5 rounded-lg cursor-pointer transition-all duration-200 outline-none",
+        "hover:bg-tree-hover focus-visible:ring-2 focus-visible:ring-ring",
+        isSelected && "bg-tree-selected ring-1 ring-primary/30",
+        isDimmed && "opacity-60",
+        isDragging && "opacity-40",
+        dropState === "valid" && "bg-primary/10 ring-2 ring-primary",
+        dropState === "invalid" && "ring-2 ring-destructive/60"
+      )}
+      style={{ paddingLeft: `${node.depth * INDENT + 12}px`, height: ROW_HEIGHT }}
+      draggable={!!onDragStart}
+      onClick={() => {
+        if (!node.isLeaf) onToggleExpand(node.path);
+        onSelectPath(node.path);
+      }}
+      onKeyDown={(e) => onKeyDown(e, node)}
+      onDragStart={onDragStart && ((e) => onDragStart(e, node))}
+      onDragOver={onDragOver && ((e) => onDragOver(e, node))}
+      onDrop={onDrop && ((e) => onDrop(e, node))}
+      onDragEnd={onDragEnd}
+    >
+      {/* One guide line per ancestor, like the nested layout drew */}
+      {Array.from({ length: node.depth }, (_, level) => (
+        <div
+          key={level}
+          className="absolute top-0 bottom-0 tree-line"
+          style={{ left: `${level * INDENT + 22}px` }}
+        />
+      ))}
+
+      {!node.isLeaf && (
+        <button
+          tabIndex={-1}
+          className="p-1 hover:bg-muted rounded-md transition-colors"
+          onClick={(e) => {
+            e.stopPropagation();
+            onToggleExpand(node.path);
+          }}
+        >
+          {isExpanded ? (
+            <ChevronDown className="w-4 h-4 text-muted-foreground" />
+          ) : (
+            <ChevronRight className="w-4 h-4 text-muted-foreground" />
+          )}
+        </button>
+      )}
 
-  return (
-    <div className="animate-fade-in">
-      <div
+      {node.isLeaf ? (
+        <FileText className="w-5 h-5 text-primary/70 flex-shrink-0" />
+      ) : (
+        <Folder
+          className={cn(
+            "w-5 h-5 flex-shrink-0",
+            isExpanded ? "text-primary" : "text-muted-foreground"
+          )}
+        />
+      )}
+
+      <span
         className={cn(
-          "flex items-center gap-2 px-3 py-2.5 rounded-lg cursor-pointer transition-all duration-200",
-          "hover:bg-tree-hover",
-          isSelected && "bg-tree-selected ring-1 ring-primary/30",
-          !isMatching &&
-            hasMatchingChildren &&
-            matchingPaths.size > 0 &&
-            "opacity-60"
+          "font-mono text-sm flex-1 truncate",
+          isSelected && "font-semibold text-primary"
         )}
-        style={{ paddingLeft: `${node.depth * 20 + 12}px` }}
-        onClick={() => {
-          if (node.isLeaf) {
-            onSelectPath(node.path);
-          } else {
-            onToggleExpand(node.path);
-            onSelectPath(node.path);
-          }
-        }}
       >
-        {!node.isLeaf && (
-          <button
-            className="p-1 hover:bg-muted rounded-md transition-colors"
-            onClick={(e) => {
-              e.stopPropagation();
-              onToggleExpand(node.path);
-            }}
-          >
-            {isExpanded ? (
-              <ChevronDown className="w-4 h-4 text-muted-foreground" />
-            ) : (
-              <ChevronRight className="w-4 h-4 text-muted-foreground" />
-            )}
-          </button>
-        )}
+        {node.key}
+      </span>
+
+      {aliases && (
+        <span
+          className="flex items-center gap-0.5 text-xs text-muted-foreground flex-shrink-0"
+          title={`Also reachable as ${aliases.join(", ")}`}
+        >
+          <Link2 className="w-3.5 h-3.5" />
+          {aliases.length > 1 && aliases.length}
+        </span>
+      )}
 
-        {node.isLeaf ? (
-          <FileText className="w-5 h-5 text-primary/70 flex-shrink-0" />
+      {/* Completeness indicator */}
+      {node.isLeaf &&
+        (isMissing ? (
+          <AlertCircle className="w-4 h-4 text-warning flex-shrink-0" />
         ) : (
-          <Folder
-            className={cn(
-              "w-5 h-5 flex-shrink-0",
-              isExpanded ? "text-primary" : "text-muted-foreground"
-            )}
-          />
-        )}
+          <CheckCircle2 className="w-4 h-4 text-success flex-shrink-0" />
+        ))}
 
+      {!node.isLeaf && (
         <span
           className={cn(
-            "font-mono text-sm flex-1 truncate",
-            isSelected && "font-semibold text-primary"
+            "text-xs font-mono px-2 py-1 rounded-md font-medium",
+            isComplete
+              ? "bg-success/10 text-success"
+              : "bg-warning/10 text-warning"
           )}
         >
-          {node.key}
+          {Math.round(completeness)}%
         </span>
+      )}
+    </div>
+  );
 
-        {/* Completeness indicator */}
-        {node.isLeaf &&
-          (isMissing ? (
-            <AlertCircle className="w-4 h-4 text-warning flex-shrink-0" />
-          ) : (
-            <CheckCircle2 className="w-4 h-4 text-success flex-shrink-0" />
-          ))}
-
-        {!node.isLeaf && (
-          <span
-            className={cn(
-              "text-xs font-mono px-2 py-1 rounded-md font-medium",
-              isComplete
-                ? "bg-success/10 text-success"
-                : "bg-warning/10 text-warning"
-            )}
+  if (!onKeyAction) return row;
+
+  return (
+    <ContextMenu>
+      <ContextMenuTrigger asChild>{row}</ContextMenuTrigger>
+      <ContextMenuContent className="w-52">
+        <ContextMenuItem
+          onSelect={() =>
+            onKeyAction({ type: "createKey", parentPath: parentPathFor(node) })
+          }
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          New key here
+        </ContextMenuItem>
+        <ContextMenuItem
+          onSelect={() =>
+            onKeyAction({
+              type: "createNamespace",
+              parentPath: parentPathFor(node),
+            })
+          }
+        >
+          <FolderPlus className="w-4 h-4 mr-2" />
+          New namespace here
+        </ContextMenuItem>
+        {node.isLeaf && (
+          <ContextMenuItem
+            onSelect={() =>
+              onKeyAction({ type: "duplicate", sourcePath: node.path })
+            }
           >
-            {Math.round(completeness)}%
-          </span>
+            <CopyPlus className="w-4 h-4 mr-2" />
+            Duplicate
+          </ContextMenuItem>
         )}
-      </div>
-
-      {!node.isLeaf && isExpanded && node.children && (
-        <div className="relative">
-          <div
-            className="absolute left-0 top-0 bottom-0 tree-line"
-            style={{ marginLeft: `${node.depth * 20 + 22}px` }}
-          />
-          {node.children.map((child) => (
-            <TreeNodeItem
-              key={child.path}
-              node={child}
-              selectedPath={selectedPath}
-              onSelectPath={onSelectPath}
-              expandedPaths={expandedPaths}
-              onToggleExpand={onToggleExpand}
-              matchingPaths={matchingPaths}
-            />
-          ))}
-        </div>
-      )}
-    </div>
+        <ContextMenuItem
+          onSelect={() => onKeyAction({ type: "rename", path: node.path })}
+        >
+          <Pencil className="w-4 h-4 mr-2" />
+          Rename…
+        </ContextMenuItem>
+        <ContextMenuItem
+          onSelect={() => onKeyAction({ type: "move", path: node.path })}
+        >
+          <FolderInput className="w-4 h-4 mr-2" />
+          Move to…
+        </ContextMenuItem>
+        {aliases && onRetireAlias && (
+          <ContextMenuSub>
+            <ContextMenuSubTrigger>
+              <Link2 className="w-4 h-4 mr-2" />
+              Retire alias
+            </ContextMenuSubTrigger>
+            <ContextMenuSubContent className="max-w-xs">
+              {aliases.map((aliasPath) => (
+                <ContextMenuItem
+                  key={aliasPath}
+                  className="font-mono text-xs"
+                  onSelect={() => onRetireAlias(aliasPath)}
+                >
+                  {aliasPath}
+                </ContextMenuItem>
+              ))}
+            </ContextMenuSubContent>
+          </ContextMenuSub>
+        )}
+        <ContextMenuSeparator />
+        <ContextMenuItem
+          className="text-destructive focus:text-destructive"
+          onSelect={() => onKeyAction({ type: "delete", path: node.path })}
+        >
+          <Trash2 className="w-4 h-4 mr-2" />
+          Delete{node.isLeaf ? "" : " namespace"}
+        </ContextMenuItem>
+      </ContextMenuContent>
+    </ContextMenu>
   );
-};
+});
 
 export const TreeView = ({
   tree,
@@ -181,41 +373,35 @@ export const TreeView = ({
   onSelectPath,
   searchQuery,
   onSearchChange,
+  searchMatches,
+  isSearching,
+  stats,
   missingFilter,
   onMissingFilterChange,
+  onKeyAction,
+  onMoveKey,
+  onBulkRename,
+  aliases,
+  onRetireAlias,
 }: TreeViewProps) => {
   const [expandedPaths, setExpandedPaths] = useState<Set<string>>(
     new Set(["auth", "dashboard", "common"])
   );
 
+  // Matching keys come from the index worker; their parents stay visible too
   const matchingPaths = useMemo(() => {
-    if (!searchQuery.trim()) return new Set<string>();
+    if (!searchMatches) return new Set<string>();
 
     const matches = new Set<string>();
-    const query = searchQuery.toLowerCase();
-
-    const searchNode = (node: TreeNode) => {
-      const pathMatch = node.path.toLowerCase().includes(query);
-      const valueMatch =
-        node.isLeaf &&
-        node.values &&
-        Object.values(node.values).some((v) => v.toLowerCase().includes(query));
-
-      if (pathMatch || valueMatch) {
-        matches.add(node.path);
-        // Also add parent paths
-        const parts = node.path.split(".");
-        for (let i = 1; i < parts.length; i++) {
-          matches.add(parts.slice(0, i).join("."));
-        }
+    searchMatches.forEach((path) => {
+      matches.add(path);
+      const parts = path.split(".");
+      for (let i = 1; i < parts.length; i++) {
+        matches.add(parts.slice(0, i).join("."));
       }
-
-      node.children?.forEach(searchNode);
-    };
-
-    tree.forEach(searchNode);
+    });
     return matches;
-  }, [tree, searchQuery]);
+  }, [searchMatches]);
 
   // Auto-expand matching paths
   useMemo(() => {
@@ -224,7 +410,15 @@ export const TreeView = ({
     }
   }, [matchingPaths]);
 
-  const handleToggleExpand = (path: string) => {
+  const aliasesByTarget = useMemo(() => {
+    const byTarget = new Map<string, string[]>();
+    Object.entries(aliases ?? {}).forEach(([aliasPath, target]) => {
+      byTarget.set(target, [...(byTarget.get(target) ?? []), aliasPath]);
+    });
+    return byTarget;
+  }, [aliases]);
+
+  const handleToggleExpand = useCallback((path: string) => {
     setExpandedPaths((prev) => {
       const next = new Set(prev);
       if (next.has(path)) {
@@ -234,7 +428,206 @@ export const TreeView = ({
       }
       return next;
     });
-  };
+  }, []);
+
+  // Only the rows that are on screen get rendered, so the tree is flattened
+  // into the visible (expanded and matching) nodes first
+  const rows = useMemo(() => {
+    const visible: TreeNode[] = [];
+    const visit = (nodes: TreeNode[]) => {
+      nodes.forEach((node) => {
+        if (isFilteredOut(node, matchingPaths)) return;
+        visible.push(node);
+        if (!node.isLeaf && expandedPaths.has(node.path) && node.children) {
+          visit(node.children);
+        }
+      });
+    };
+    visit(tree);
+    return visible;
+  }, [tree, expandedPaths, matchingPaths]);
+
+  const rowIndex = useMemo(
+    () => new Map(rows.map((node, index) => [node.path, index])),
+    [rows]
+  );
+
+  const { containerRef, containerProps, focusKey, hasFocus, setFocusKey } =
+    useRetainedFocus<HTMLDivElement>();
+
+  // The one row reachable with Tab: the last focused one while it's still
+  // listed, otherwise the selection or the first row
+  const tabStopPath =
+    focusKey && rowIndex.has(focusKey)
+      ? focusKey
+      : selectedPath && rowIndex.has(selectedPath)
+      ? selectedPath
+      : rows[0]?.path;
+  const tabStopIndex =
+    tabStopPath !== undefined ? rowIndex.get(tabStopPath) : undefined;
+
+  const [draggingPath, setDraggingPath] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<DropTarget | null>(null);
+  // The dragged row has to stay mounted for the browser to finish the drag
+  const draggingIndex = draggingPath ? rowIndex.get(draggingPath) : undefined;
+
+  const virtualizer = useVirtualizer({
+    count: rows.length,
+    getScrollElement: () => containerRef.current,
+    estimateSize: () => ROW_HEIGHT,
+    getItemKey: (index) => rows[index].path,
+    overscan: 12,
+    paddingStart: 8,
+    paddingEnd: 8,
+    rangeExtractor: (range) =>
+      withRetainedIndex(
+        withRetainedIndex(defaultRangeExtractor(range), tabStopIndex),
+        draggingIndex
+      ),
+  });
+
+  // A search re-filters the rows; bring the selection back into view if it's
+  // still there and hand focus to a surviving row if the focused one went away
+  const filteredForRef = useRef(matchingPaths);
+  useEffect(() => {
+    if (filteredForRef.current === matchingPaths) return;
+    filteredForRef.current = matchingPaths;
+    const selectedIndex = selectedPath ? rowIndex.get(selectedPath) : undefined;
+    if (selectedIndex !== undefined) {
+      virtualizer.scrollToIndex(selectedIndex, { align: "auto" });
+    }
+  }, [matchingPaths, rowIndex, selectedPath, virtualizer]);
+
+  useEffect(() => {
+    if (hasFocus && focusKey && !rowIndex.has(focusKey) && tabStopPath) {
+      setFocusKey(tabStopPath);
+    }
+  }, [hasFocus, focusKey, rowIndex, tabStopPath, setFocusKey]);
+
+  const focusRow = useCallback(
+    (index: number) => {
+      const node = rows[Math.max(0, Math.min(index, rows.length - 1))];
+      if (!node) return;
+      setFocusKey(node.path);
+      virtualizer.scrollToIndex(rowIndex.get(node.path)!, { align: "auto" });
+    },
+    [rows, rowIndex, setFocusKey, virtualizer]
+  );
+
+  const handleRowKeyDown = useCallback(
+    (event: KeyboardEvent<HTMLDivElement>, node: TreeNode) => {
+      const index = rowIndex.get(node.path);
+      if (index === undefined) return;
+      const isExpanded = !node.isLeaf && expandedPaths.has(node.path);
+
+      switch (event.key) {
+        case "ArrowDown":
+          focusRow(index + 1);
+          break;
+        case "ArrowUp":
+          focusRow(index - 1);
+          break;
+        case "Home":
+          focusRow(0);
+          break;
+        case "End":
+          focusRow(rows.length - 1);
+          break;
+        case "ArrowRight":
+          if (node.isLeaf) return;
+          if (isExpanded) focusRow(index + 1);
+          else handleToggleExpand(node.path);
+          break;
+        case "ArrowLeft": {
+          if (isExpanded) {
+            handleToggleExpand(node.path);
+            break;
+          }
+          const parentIndex = rowIndex.get(
+            node.path.split(".").slice(0, -1).join(".")
+          );
+          if (parentIndex === undefined) return;
+          focusRow(parentIndex);
+          break;
+        }
+        case "Enter":
+        case " ":
+          if (!node.isLeaf) handleToggleExpand(node.path);
+          onSelectPath(node.path);
+          break;
+        case "F2":
+          if (!onKeyAction) return;
+          onKeyAction({ type: "rename", path: node.path });
+          break;
+        case "Delete":
+          if (!onKeyAction) return;
+          onKeyAction({ type: "delete", path: node.path });
+          break;
+        default:
+          return;
+      }
+      event.preventDefault();
+    },
+    [
+      rows,
+      rowIndex,
+      expandedPaths,
+      focusRow,
+      handleToggleExpand,
+      onSelectPath,
+      onKeyAction,
+    ]
+  );
+
+  const handleDragStart = useCallback(
+    (event: DragEvent<HTMLDivElement>, node: TreeNode) => {
+      event.dataTransfer.effectAllowed = "move";
+      event.dataTransfer.setData("text/plain", node.path);
+      setDraggingPath(node.path);
+    },
+    []
+  );
+
+  const handleDragOver = useCallback(
+    (event: DragEvent<HTMLDivElement>, over: TreeNode | null) => {
+      if (!draggingPath) return;
+      event.stopPropagation();
+      const target = getDropTarget(tree, draggingPath, over);
+      // Only a valid target accepts the drop
+      if (target.isValid) {
+        event.preventDefault();
+        event.dataTransfer.dropEffect = "move";
+      }
+      setDropTarget((prev) =>
+        prev?.rowPath === target.rowPath && prev.isValid === target.isValid
+          ? prev
+          : target
+      );
+    },
+    [tree, draggingPath]
+  );
+
+  const handleDragEnd = useCallback(() => {
+    setDraggingPath(null);
+    setDropTarget(null);
+  }, []);
+
+  const handleDrop = useCallback(
+    (event: DragEvent<HTMLDivElement>, over: TreeNode | null) => {
+      if (!draggingPath || !onMoveKey) return;
+      event.preventDefault();
+      event.stopPropagation();
+      const target = getDropTarget(tree, draggingPath, over);
+      if (target.isValid) {
+        onMoveKey(draggingPath, target.toPath);
+        if (over && !over.isLeaf) {
+          setExpandedPaths((prev) => new Set([...prev, over.path]));
+        }
+      }
+      handleDragEnd();
+    },
+    [tree, draggingPath, onMoveKey, handleDragEnd]
+  );
 
   const expandAll = () => {
     const allPaths = new Set<string>();
@@ -254,6 +647,22 @@ export const TreeView = ({
     setExpandedPaths(new Set());
   };
 
+  const selectedNode = selectedPath ? findNode(tree, selectedPath) : undefined;
+  const newKeyParent = selectedNode ? parentPathFor(selectedNode) : "";
+
+  // Reveal a selection made elsewhere (a new key, a breadcrumb) by expanding its parents
+  useEffect(() => {
+    if (!selectedPath) return;
+    const parts = selectedPath.split(".");
+    const ancestors = parts.slice(0, -1).map((_, i) => parts.slice(0, i + 1).join("."));
+    if (ancestors.length === 0) return;
+    setExpandedPaths((prev) =>
+      ancestors.every((path) => prev.has(path))
+        ? prev
+        : new Set([...prev, ...ancestors])
+    );
+  }, [selectedPath]);
+
   // Breadcrumb navigation
   const breadcrumbs = selectedPath ? selectedPath.split(".") : [];
 
@@ -312,6 +721,9 @@ export const TreeView = ({
             placeholder="Search keys or values..."
             className="pl-9 h-10 text-sm bg-background"
           />
+          {isSearching && (
+            <Loader2 className="absolute right-3 top-1/2 -translate-y-1/2 w-4 h-4 animate-spin text-muted-foreground" />
+          )}
         </div>
 
         {/* Missing translations filter */}
@@ -398,6 +810,47 @@ export const TreeView = ({
           </div>
         )}
 
+        {onKeyAction && (
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              className="flex-1 h-8 text-xs"
+              onClick={() =>
+                onKeyAction({ type: "createKey", parentPath: newKeyParent })
+              }
+            >
+              <Plus className="w-3 h-3 mr-1" />
+              New Key
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              className="flex-1 h-8 text-xs"
+              onClick={() =>
+                onKeyAction({
+                  type: "createNamespace",
+                  parentPath: newKeyParent,
+                })
+              }
+            >
+              <FolderPlus className="w-3 h-3 mr-1" />
+              New Namespace
+            </Button>
+            {onBulkRename && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-8 w-8 p-0"
+                onClick={onBulkRename}
+                title="Rename keys by pattern"
+              >
+                <Replace className="w-4 h-4" />
+              </Button>
+            )}
+          </div>
+        )}
+
         {/* Expand/Collapse controls */}
         <div className="flex items-center gap-2">
           <Button
@@ -420,21 +873,98 @@ export const TreeView = ({
         </div>
       </div>
 
-      <div className="flex-1 overflow-y-auto scrollbar-thin p-2">
-        {tree.map((node) => (
-          <TreeNodeItem
-            key={node.path}
-            node={node}
-            selectedPath={selectedPath}
-            onSelectPath={onSelectPath}
-            expandedPaths={expandedPaths}
-            onToggleExpand={handleToggleExpand}
-            matchingPaths={matchingPaths}
-          />
-        ))}
+      <div
+        ref={containerRef}
+        role="tree"
+        className={cn(
+          "flex-1 overflow-y-auto scrollbar-thin px-2",
+          dropTarget?.rowPath === null &&
+            dropTarget.isValid &&
+            "bg-primary/5 ring-2 ring-inset ring-primary/40"
+        )}
+        {...containerProps}
+        // Dropping below the rows moves to the top level
+        onDragOver={onMoveKey && ((e) => handleDragOver(e, null))}
+        onDrop={onMoveKey && ((e) => handleDrop(e, null))}
+        onDragLeave={(e) => {
+          if (
+            !(e.relatedTarget instanceof Node) ||
+            !e.currentTarget.contains(e.relatedTarget)
+          ) {
+            setDropTarget(null);
+          }
+        }}
+      >
+        <div
+          className="relative"
+          style={{ height: virtualizer.getTotalSize() }}
+        >
+          {virtualizer.getVirtualItems().map((item) => {
+            const node = rows[item.index];
+            return (
+              <div
+                key={item.key}
+                className="absolute left-0 right-0"
+                style={{ transform: `translateY(${item.start}px)` }}
+              >
+                <TreeRow
+                  node={node}
+                  isSelected={selectedPath === node.path}
+                  isExpanded={expandedPaths.has(node.path)}
+                  isDimmed={
+                    matchingPaths.size > 0 && !matchingPaths.has(node.path)
+                  }
+                  isTabStop={tabStopPath === node.path}
+                  isDragging={draggingPath === node.path}
+                  dropState={
+                    dropTarget?.rowPath === node.path
+                      ? dropTarget.isValid
+                        ? "valid"
+                        : "invalid"
+                      : undefined
+                  }
+                  aliases={aliasesByTarget.get(node.path)}
+                  onSelectPath={onSelectPath}
+                  onToggleExpand={handleToggleExpand}
+                  onKeyDown={handleRowKeyDown}
+                  onKeyAction={onKeyAction}
+                  onRetireAlias={onRetireAlias}
+                  onDragStart={onMoveKey && handleDragStart}
+                  onDragOver={onMoveKey && handleDragOver}
+                  onDrop={onMoveKey && handleDrop}
+                  onDragEnd={handleDragEnd}
+                />
+              </div>
+            );
+          })}
+        </div>
       </div>
 
-      <div className="p-3 border-t border-sidebar-border">
+      <div className="p-3 border-t border-sidebar-border space-y-2">
+        {stats && (
+          <div className="flex items-center gap-1 flex-wrap text-xs">
+            <span className="text-muted-foreground mr-1">
+              {stats.keyCount.toLocaleString()} keys
+            </span>
+            {languages.map((lang) => {
+              const completeness = stats.languages[lang]?.completeness ?? 0;
+              return (
+                <Badge
+                  key={lang}
+                  variant="outline"
+                  className={cn(
+                    "font-mono text-[10px] px-1.5",
+                    completeness === 100
+                      ? "bg-success/10 text-success border-success/30"
+                      : "bg-warning/10 text-warning border-warning/30"
+                  )}
+                >
+                  {lang.toUpperCase()} {Math.floor(completeness)}%
+                </Badge>
+              );
+            })}
+          </div>
+        )}
         <div className="flex items-center justify-between text-sm text-muted-foreground">
           <div className="flex items-center gap-2">
             <CheckCircle2 className="w-4 h-4 text-success" />
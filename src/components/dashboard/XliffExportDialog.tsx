@@ -0,0 +1,133 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { XliffExportOptions, XliffVersion } from "@/lib/formats/xliff";
+
+interface XliffExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  languages: string[];
+  onExport: (options: XliffExportOptions) => void;
+}
+
+export const XliffExportDialog = ({
+  open,
+  onOpenChange,
+  languages,
+  onExport,
+}: XliffExportDialogProps) => {
+  const [options, setOptions] = useState<XliffExportOptions>({
+    version: "1.2",
+    sourceLanguage: languages[0] ?? "",
+    targetLanguage: languages[1] ?? languages[0] ?? "",
+  });
+
+  // Keep the pair valid when languages are added or removed
+  useEffect(() => {
+    setOptions((prev) => ({
+      ...prev,
+      sourceLanguage: languages.includes(prev.sourceLanguage)
+        ? prev.sourceLanguage
+        : languages[0] ?? "",
+      targetLanguage: languages.includes(prev.targetLanguage)
+        ? prev.targetLanguage
+        : languages[1] ?? languages[0] ?? "",
+    }));
+  }, [languages]);
+
+  const renderLanguageSelect = (
+    label: string,
+    field: "sourceLanguage" | "targetLanguage"
+  ) => (
+    <div className="space-y-2">
+      <label className="text-sm font-medium">{label}</label>
+      <Select
+        value={options[field]}
+        onValueChange={(value) =>
+          setOptions((prev) => ({ ...prev, [field]: value }))
+        }
+      >
+        <SelectTrigger className="font-mono uppercase">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {languages.map((lang) => (
+            <SelectItem key={lang} value={lang} className="font-mono uppercase">
+              {lang}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md bg-card">
+        <DialogHeader>
+          <DialogTitle>Export XLIFF</DialogTitle>
+          <DialogDescription>
+            Hand a source/target pair to a translation vendor. Notes and review
+            states are included.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid grid-cols-2 gap-4 py-2">
+          {renderLanguageSelect("Source language", "sourceLanguage")}
+          {renderLanguageSelect("Target language", "targetLanguage")}
+          <div className="space-y-2 col-span-2">
+            <label className="text-sm font-medium">XLIFF version</label>
+            <Select
+              value={options.version}
+              onValueChange={(version) =>
+                setOptions((prev) => ({
+                  ...prev,
+                  version: version as XliffVersion,
+                }))
+              }
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="1.2">XLIFF 1.2</SelectItem>
+                <SelectItem value="2.0">XLIFF 2.0</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => {
+              onExport(options);
+              onOpenChange(false);
+            }}
+            disabled={
+              !options.sourceLanguage ||
+              !options.targetLanguage ||
+              options.sourceLanguage === options.targetLanguage
+            }
+          >
+            Export
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,23 @@
+import { useState, useCallback } from 'react';
+import {
+  ApiEnvironment,
+  API_ENVIRONMENTS,
+  getInitialApiEnvironment,
+  setApiEnvironment
+} from '@/services/apiClient';
+
+export const useApiEnvironment = () => {
+  const [environment, setEnvironmentState] = useState<ApiEnvironment>(getInitialApiEnvironment);
+
+  const setEnvironment = useCallback((next: ApiEnvironment) => {
+    if (!API_ENVIRONMENTS[next].baseURL) return;
+    setApiEnvironment(next);
+    setEnvironmentState(next);
+  }, []);
+
+  return {
+    environment,
+    environmentConfig: API_ENVIRONMENTS[environment],
+    setEnvironment
+  };
+};
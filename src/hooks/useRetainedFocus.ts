@@ -0,0 +1,50 @@
+import { useState, useRef, useCallback, useLayoutEffect, FocusEvent } from 'react';
+
+const findFocusKey = (element: EventTarget | null) =>
+  element instanceof HTMLElement
+    ? element.closest<HTMLElement>('[data-focus-key]')?.dataset.focusKey ?? null
+    : null;
+
+// Remembers which [data-focus-key] element inside a virtualized list has focus
+// and puts focus back on it when a re-render replaces or remounts its row.
+// Setting the key while the list has focus moves focus there (roving tabindex).
+export const useRetainedFocus = <T extends HTMLElement>() => {
+  const containerRef = useRef<T>(null);
+  const [focusKey, setFocusKey] = useState<string | null>(null);
+  const [hasFocus, setHasFocus] = useState(false);
+
+  const onFocus = useCallback((event: FocusEvent<T>) => {
+    setFocusKey(findFocusKey(event.target));
+    setHasFocus(true);
+  }, []);
+
+  const onBlur = useCallback((event: FocusEvent<T>) => {
+    if (event.relatedTarget instanceof Node && event.currentTarget.contains(event.relatedTarget)) return;
+    // A row unmounted by re-filtering or scrolling hasn't really lost focus
+    if (event.target instanceof Node && !event.target.isConnected) return;
+    setHasFocus(false);
+  }, []);
+
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    if (!container || !hasFocus || !focusKey) return;
+    if (findFocusKey(document.activeElement) === focusKey) return;
+    container
+      .querySelector<HTMLElement>(`[data-focus-key="${CSS.escape(focusKey)}"]`)
+      ?.focus({ preventScroll: true });
+  });
+
+  return {
+    containerRef,
+    focusKey,
+    hasFocus,
+    setFocusKey,
+    containerProps: { onFocus, onBlur }
+  };
+};
+
+// Range extractor helper: keeps the focused row mounted while it's scrolled out of view
+export const withRetainedIndex = (indexes: number[], retained: number | undefined) =>
+  retained === undefined || indexes.includes(retained)
+    ? indexes
+    : [...indexes, retained].sort((a, b) => a - b);
@@ -0,0 +1,171 @@
+import { useState, useEffect, useMemo, useRef } from 'react';
+import type { TranslationData, TranslationNode, TreeNode } from '@/types/translation';
+import { createTreeBuilder, diffLeaves, searchLeaves } from '@/lib/translationTree';
+import type { IndexRequest, IndexResponse, TranslationStats } from '@/workers/protocol';
+
+// Edits that rebuild more entries than this go to the worker instead
+const MAX_MAIN_THREAD_REBUILD = 500;
+
+export interface IndexProgress {
+  processed: number;
+  total: number;
+}
+
+interface BuildRequest {
+  translations: TranslationNode;
+  languages: string[];
+}
+
+const NO_MATCHES = new Set<string>();
+
+const createIndexWorker = () => {
+  try {
+    return new Worker(new URL('../workers/translationIndex.worker.ts', import.meta.url), { type: 'module' });
+  } catch {
+    return null;
+  }
+};
+
+const postRequest = (worker: Worker, request: IndexRequest) => worker.postMessage(request);
+
+// Tree, completeness, stats and search for the working copy. Small edits are
+// applied on the main thread against the cached tree; whole-project builds and
+// search run in a worker so large projects don't block typing.
+export const useTranslationIndex = (data: TranslationData | null, searchQuery: string) => {
+  const [builder] = useState(createTreeBuilder);
+  const workerRef = useRef<Worker | null>(null);
+  const requestIdRef = useRef(0);
+  const buildsRef = useRef(new Map<number, BuildRequest>());
+  // The tree the worker's search index currently reflects
+  const syncedRef = useRef<TreeNode[] | null>(null);
+
+  const [adopted, setAdopted] = useState<(BuildRequest & { tree: TreeNode[] }) | null>(null);
+  const [progress, setProgress] = useState<IndexProgress | null>(null);
+  const [stats, setStats] = useState<TranslationStats | null>(null);
+  const [searchResults, setSearchResults] = useState<{ query: string; matches: Set<string> } | null>(null);
+  // Set when workers aren't available; everything is then done on the main thread
+  const [fallback, setFallback] = useState(false);
+
+  useEffect(() => {
+    const worker = createIndexWorker();
+    if (!worker) {
+      setFallback(true);
+      return;
+    }
+    const builds = buildsRef.current;
+
+    worker.onmessage = ({ data: message }: MessageEvent<IndexResponse>) => {
+      switch (message.type) {
+        case 'progress':
+          if (message.requestId === requestIdRef.current) {
+            setProgress({ processed: message.processed, total: message.total });
+          }
+          break;
+        case 'built': {
+          const request = builds.get(message.requestId);
+          builds.delete(message.requestId);
+          if (!request) break;
+          builder.adopt(request.translations, request.languages, message.tree);
+          syncedRef.current = message.tree;
+          if (message.requestId === requestIdRef.current) setProgress(null);
+          setAdopted({ ...request, tree: message.tree });
+          break;
+        }
+        case 'stats':
+          setStats(message.stats);
+          break;
+        case 'searchResults':
+          setSearchResults({ query: message.query, matches: new Set(message.matches) });
+          break;
+        case 'error':
+          builds.delete(message.requestId);
+          console.error('Translation index worker failed:', message.message);
+          setProgress(null);
+          setFallback(true);
+          break;
+      }
+    };
+    worker.onerror = event => {
+      console.error('Translation index worker crashed:', event.message);
+      setProgress(null);
+      setFallback(true);
+    };
+
+    workerRef.current = worker;
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+      builds.clear();
+      syncedRef.current = null;
+    };
+  }, [builder]);
+
+  // null while the project needs a full build that hasn't come back yet
+  const built = useMemo(() => {
+    if (!data) return [];
+    if (adopted?.translations === data.translations && adopted.languages === data.languages) {
+      return adopted.tree;
+    }
+    return builder.build(data.translations, data.languages, {
+      maxRebuilt: fallback ? Infinity : MAX_MAIN_THREAD_REBUILD
+    });
+  }, [builder, data, fallback, adopted]);
+
+  useEffect(() => {
+    if (!data || built || !workerRef.current) return;
+    const requested = [...buildsRef.current.values()].some(
+      request => request.translations === data.translations && request.languages === data.languages
+    );
+    if (requested) return;
+
+    const requestId = ++requestIdRef.current;
+    buildsRef.current.set(requestId, { translations: data.translations, languages: data.languages });
+    setProgress({ processed: 0, total: 0 });
+    postRequest(workerRef.current, { type: 'build', requestId, ...buildsRef.current.get(requestId)! });
+  }, [data, built]);
+
+  // Keep the worker's search index and stats in step with trees built here
+  useEffect(() => {
+    if (!data || !built || !workerRef.current) return;
+    const previous = syncedRef.current;
+    if (previous === built) return;
+    syncedRef.current = built;
+
+    const { upserts, removals } = diffLeaves(previous ?? [], built);
+    if (upserts.length + removals.length === 0) return;
+    postRequest(workerRef.current, { type: 'patch', languages: data.languages, upserts, removals });
+  }, [data, built]);
+
+  useEffect(() => {
+    if (workerRef.current) postRequest(workerRef.current, { type: 'search', query: searchQuery });
+  }, [searchQuery]);
+
+  // The last complete tree stays on screen while a rebuild is in flight, unless
+  // it belongs to another project
+  const [shown, setShown] = useState<{ project: string | null; tree: TreeNode[] }>({ project: null, tree: [] });
+  const project = data?.project ?? null;
+  if (built && (built !== shown.tree || project !== shown.project)) {
+    setShown({ project, tree: built });
+  }
+  const tree = built ?? (shown.project === project ? shown.tree : null);
+
+  const fallbackMatches = useMemo(
+    () => (fallback && searchQuery.trim() && tree ? searchLeaves(tree, searchQuery) : null),
+    [fallback, searchQuery, tree]
+  );
+
+  let searchMatches: Set<string> | null = null;
+  if (searchQuery.trim()) {
+    // Until the worker answers, the previous results stand in to avoid flicker
+    searchMatches = fallbackMatches ?? searchResults?.matches ?? NO_MATCHES;
+  }
+
+  return {
+    // null until the first build for this project is done
+    tree,
+    progress,
+    stats: fallback ? null : stats,
+    searchMatches,
+    isSearching: !fallback && !!searchQuery.trim() && searchResults?.query !== searchQuery.toLowerCase()
+  };
+};
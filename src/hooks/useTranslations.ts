@@ -1,9 +1,47 @@
-import { getLanguageData } from '@/services/translationservices';
-import { TranslationData, TranslationNode, TreeNode, UnsavedChange } from '@/types/translation';
-import { useState, useCallback, useEffect } from 'react';
+import {
+  createProject,
+  deleteLanguageData,
+  getLanguageData,
+  saveLanguageData
+} from '@/services/translationservices';
+import type { ApiEnvironment } from '@/services/apiClient';
+import {
+  AddKeyOperation,
+  AddNamespaceOperation,
+  DeleteKeyOperation,
+  ImportOutcome,
+  KeyMetadata,
+  MoveKeyOperation,
+  SaveOperationResult,
+  SaveOutcome,
+  SetValueOperation,
+  TranslationData,
+  TranslationOperation,
+  TranslationPayloadNode
+} from '@/types/translation';
+import {
+  applyOperation,
+  applyOperations,
+  createOperationId,
+  describeOperation,
+  getKeyNameError,
+  getMoveKeyError,
+  getNewKeyPathError,
+  getNodeAt,
+  getValueChanges,
+  isEntry,
+  resolvePath,
+  splitPath
+} from '@/lib/translationOperations';
+import { TranslationDataIssue, fromPayload } from '@/lib/translationPayload';
+import { planBulkRename } from '@/lib/bulkRename';
+import { ResponseValidationError } from '@/services/schemas';
+import { isAxiosError } from 'axios';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useState, useCallback, useMemo, useRef } from 'react';
 
 // Mock API - replace with actual API calls
-const mockData: TranslationData = {
+const mockData: Omit<TranslationData, 'translations'> & { translations: TranslationPayloadNode } = {
   project: "Languge Management System",
   languages: ["en", "de"],
   translations: {
@@ -82,292 +120,595 @@ const mockData: TranslationData = {
   }
 };
 
-export const useTranslations = () => {
-  const [data, setData] = useState<TranslationData | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const [unsavedChanges, setUnsavedChanges] = useState<UnsavedChange[]>([]);
-  const [originalData, setOriginalData] = useState<TranslationData | null>(null);
-
-  const fetchTranslations = useCallback(async () => {
-    setLoading(true);
-    setError(null);
-    
-    try {
-      // Simulate API call - replace with actual fetch
-      const response=await getLanguageData()
-      await new Promise(resolve => setTimeout(resolve, 500));
-      setData({
-        languages:["en", "de"],
-        translations:response?.data?.data?.data,
-        project:response?.data?.data?.project_name
-      });
-      setOriginalData(JSON.parse(JSON.stringify({
-        languages:["en", "de"],
-        translations:response?.data?.data?.data,
-        project:response?.data?.data?.project_name
-      })));
-    } catch (err) {
-      setError('Failed to fetch translations');
-    } finally {
-      setLoading(false);
+const MAX_HISTORY = 100;
+
+// Why the last load failed; issues list the response paths that didn't validate
+export interface LoadError {
+  message: string;
+  issues: TranslationDataIssue[];
+}
+
+const toLoadError = (err: unknown): LoadError => {
+  if (err instanceof ResponseValidationError) {
+    return { message: err.message, issues: err.issues };
+  }
+  if (isAxiosError(err)) {
+    const serverMessage = err.response?.data?.message;
+    return {
+      message: typeof serverMessage === 'string' ? serverMessage : `Failed to fetch translations (${err.message})`,
+      issues: []
+    };
+  }
+  return { message: 'Failed to fetch translations', issues: [] };
+};
+
+const fetchProject = async (project?: string): Promise<TranslationData> => {
+  const payload = await getLanguageData(project);
+  return {
+    languages: payload.languages,
+    // Already validated, so this only changes shape
+    translations: fromPayload(payload.data, payload.languages),
+    project: payload.project_name,
+    metadata: payload.metadata,
+    aliases: payload.aliases
+  };
+};
+
+export interface MoveOptions {
+  // Merge into an existing key or namespace of the same kind at the target
+  merge?: boolean;
+  // Keep the old path working as an alias of the new one
+  keepAlias?: boolean;
+}
+
+interface EditState {
+  data: TranslationData;
+  operations: TranslationOperation[];
+}
+
+interface HistoryEntry extends EditState {
+  label: string;
+}
+
+// Applies a single value edit, folding it into an earlier edit of the same cell
+const withValueChange = (
+  state: EditState,
+  keyPath: string,
+  language: string,
+  value: string
+): EditState | null => {
+  const entry = getNodeAt(state.data.translations, keyPath);
+  if (!isEntry(entry)) return null;
+
+  const currentValue = entry.values[language] || '';
+  if (value === currentValue) return null;
+
+  const op: SetValueOperation = {
+    type: 'setValue',
+    id: createOperationId(),
+    keyPath,
+    language,
+    originalValue: currentValue,
+    newValue: value
+  };
+  const data = applyOperation(state.data, op);
+
+  const existing = state.operations.findIndex(o =>
+    o.type === 'setValue' && o.keyPath === keyPath && o.language === language
+  );
+  if (existing < 0) {
+    return { data, operations: [...state.operations, op] };
+  }
+
+  const previous = state.operations[existing] as SetValueOperation;
+  // Remove change if reverted to original
+  if (value === previous.originalValue) {
+    return { data, operations: state.operations.filter((_, i) => i !== existing) };
+  }
+  const operations = [...state.operations];
+  operations[existing] = { ...previous, newValue: value };
+  return { data, operations };
+};
+
+// Strips a language from an operation recorded after that language was added,
+// so the log never carries values or states for a language that is gone
+const withoutLanguage = (op: TranslationOperation, language: string): TranslationOperation | null => {
+  switch (op.type) {
+    case 'setValue':
+      return op.language === language ? null : op;
+    case 'addKey': {
+      if (!(language in op.values)) return op;
+      const values = { ...op.values };
+      delete values[language];
+      return { ...op, values };
+    }
+    case 'setMetadata': {
+      if (!op.metadata?.states || !(language in op.metadata.states)) return op;
+      const states = { ...op.metadata.states };
+      delete states[language];
+      return { ...op, metadata: { ...op.metadata, states } };
     }
+    default:
+      return op;
+  }
+};
+
+export const useTranslations = (environment: ApiEnvironment) => {
+  const queryClient = useQueryClient();
+  const [data, setData] = useState<TranslationData | null>(null);
+  const [operations, setOperations] = useState<TranslationOperation[]>([]);
+  const [past, setPast] = useState<HistoryEntry[]>([]);
+  const [future, setFuture] = useState<HistoryEntry[]>([]);
+  const groupKeyRef = useRef<string | null>(null);
+  // Set once a dataset is imported; until then the backend's default project is
+  // used. An imported project only exists on the backend it was imported into,
+  // so on any other environment the default project is loaded instead.
+  const [imported, setImported] = useState<{
+    environment: ApiEnvironment;
+    project: string;
+    // False while the backend hasn't stored the project yet
+    onServer: boolean;
+  } | null>(null);
+  const project = imported?.environment === environment ? imported.project : undefined;
+  const isLocalProject = imported?.environment === environment && !imported.onServer;
+
+  const queryKey = useMemo(() => ['translations', environment, project ?? null] as const, [environment, project]);
+  const query = useQuery({
+    queryKey,
+    queryFn: () => fetchProject(project),
+    // A local project's only copy is the seeded cache entry
+    enabled: !isLocalProject
+  });
+  // Last known server state; edits are tracked as operations on top of it
+  const originalData = query.data ?? null;
+
+  const clearHistory = useCallback(() => {
+    setPast([]);
+    setFuture([]);
+    groupKeyRef.current = null;
   }, []);
 
-  useEffect(() => {
-    fetchTranslations();
-  }, [fetchTranslations]);
+  // History only makes sense within one project on one backend
+  const historyScope = `${environment}:${project ?? ''}`;
+  const [currentScope, setCurrentScope] = useState(historyScope);
+  if (historyScope !== currentScope) {
+    setCurrentScope(historyScope);
+    setPast([]);
+    setFuture([]);
+  }
 
-  const updateTranslation = useCallback((keyPath: string, language: string, value: string) => {
-    if (!data || !originalData) return;
-
-    const keys = keyPath.split('.');
-    const newData = JSON.parse(JSON.stringify(data)) as TranslationData;
-    
-    let current: any = newData.translations;
-    for (let i = 0; i < keys.length - 1; i++) {
-      current = current[keys[i]];
-    }
-    
-    const lastKey = keys[keys.length - 1];
-    if (current[lastKey]) {
-      current[lastKey][language] = value;
+  // Each new server snapshot (first load, background refetch, save) becomes the
+  // base of the working copy, with pending operations replayed on top. Undo and
+  // redo steps hold operations against the server state too, so they are rebased
+  // the same way. Structural sharing keeps the snapshot identical when a refetch
+  // brings nothing new.
+  const [base, setBase] = useState<TranslationData | null>(null);
+  if (originalData !== base) {
+    setBase(originalData);
+    setData(originalData && applyOperations(originalData, operations));
+    if (originalData) {
+      const rebase = (entries: HistoryEntry[]) =>
+        entries.map(entry => ({ ...entry, data: applyOperations(originalData, entry.operations) }));
+      setPast(rebase);
+      setFuture(rebase);
     }
+  }
 
-    // Track unsaved changes
-    let originalCurrent: any = originalData.translations;
-    for (let i = 0; i < keys.length - 1; i++) {
-      originalCurrent = originalCurrent[keys[i]];
+  // Pushes the current state onto the undo stack and moves to the next one.
+  // Consecutive commits with the same groupKey collapse into a single step.
+  const commit = useCallback((
+    label: string,
+    next: EditState,
+    groupKey?: string
+  ) => {
+    if (!data) return;
+
+    const coalesce = groupKey !== undefined && groupKeyRef.current === groupKey;
+    if (!coalesce) {
+      setPast(prev => [...prev, { label, data, operations }].slice(-MAX_HISTORY));
     }
-    const originalValue = originalCurrent[lastKey]?.[language] || '';
-
-    setUnsavedChanges(prev => {
-      const existing = prev.findIndex(c => c.keyPath === keyPath && c.language === language);
-      
-      if (value === originalValue) {
-        // Remove change if reverted to original
-        return prev.filter((_, i) => i !== existing);
-      }
-      
-      const change: UnsavedChange = {
-        keyPath,
-        language,
-        originalValue,
-        newValue: value
-      };
-
-      if (existing >= 0) {
-        const updated = [...prev];
-        updated[existing] = change;
-        return updated;
-      }
-      
-      return [...prev, change];
-    });
+    groupKeyRef.current = groupKey ?? null;
+    setFuture([]);
+    setData(next.data);
+    setOperations(next.operations);
+  }, [data, operations]);
 
-    setData(newData);
-  }, [data, originalData]);
+  const endEditGroup = useCallback(() => {
+    groupKeyRef.current = null;
+  }, []);
 
-  const renameKey = useCallback((oldPath: string, newKeyName: string) => {
+  const updateTranslation = useCallback((keyPath: string, language: string, value: string) => {
     if (!data) return;
 
-    const keys = oldPath.split('.');
-    const newData = JSON.parse(JSON.stringify(data)) as TranslationData;
-    
-    // Navigate to parent
-    let parent: any = newData.translations;
-    for (let i = 0; i < keys.length - 1; i++) {
-      parent = parent[keys[i]];
-    }
-    
-    const oldKey = keys[keys.length - 1];
-    
-    // Rename the key
-    if (parent[oldKey] !== undefined) {
-      parent[newKeyName] = parent[oldKey];
-      delete parent[oldKey];
+    const next = withValueChange({ data, operations }, keyPath, language, value);
+    if (!next) return;
+
+    commit(
+      `Edit ${keyPath} (${language.toUpperCase()})`,
+      next,
+      `setValue:${keyPath}:${language}`
+    );
+  }, [data, operations, commit]);
+
+  const bulkUpdate = useCallback((
+    updates: { keyPath: string; language: string; value: string }[],
+    label?: string,
+    metadataUpdates: { keyPath: string; metadata: KeyMetadata | null }[] = []
+  ) => {
+    if (!data || updates.length + metadataUpdates.length === 0) return;
+
+    const withValues = updates.reduce<EditState>(
+      (state, { keyPath, language, value }) => withValueChange(state, keyPath, language, value) ?? state,
+      { data, operations }
+    );
+    const next = metadataUpdates.reduce<EditState>((state, { keyPath, metadata }) => {
+      const op: TranslationOperation = { type: 'setMetadata', id: createOperationId(), keyPath, metadata };
+      // Only the latest metadata for a key needs to reach the server
+      const operations = state.operations.filter(o => !(o.type === 'setMetadata' && o.keyPath === keyPath));
+      return { data: applyOperation(state.data, op), operations: [...operations, op] };
+    }, withValues);
+
+    const count = updates.length + metadataUpdates.length;
+    commit(label ?? `Edit ${count} translation${count !== 1 ? 's' : ''}`, next);
+  }, [data, operations, commit]);
+
+  // Moves a key or namespace to a new path. Rejected if anything is already
+  // there, unless `merge` is set and the existing node is of the same kind.
+  // Like the other key actions below, returns whether anything changed.
+  const moveKey = useCallback((fromPath: string, toPath: string, options: MoveOptions = {}) => {
+    const { merge = false, keepAlias = false } = options;
+    if (!data || getMoveKeyError(data.translations, fromPath, toPath, merge)) return false;
+
+    const op: MoveKeyOperation = { type: 'moveKey', id: createOperationId(), fromPath, toPath };
+    if (merge && getNodeAt(data.translations, toPath)) op.merge = true;
+    if (keepAlias) op.keepAlias = true;
+
+    // Moving a key that was just moved collapses into a single move; merges
+    // can't be undone by moving back and aliases remember the in-between
+    // path, so those stay separate
+    const last = operations[operations.length - 1];
+    const isPlainMove = (move: MoveKeyOperation) => !move.merge && !move.keepAlias;
+    let nextOperations: TranslationOperation[];
+    if (last?.type === 'moveKey' && last.toPath === fromPath && isPlainMove(last) && isPlainMove(op)) {
+      nextOperations = last.fromPath === toPath
+        ? operations.slice(0, -1)
+        : [...operations.slice(0, -1), { ...last, toPath }];
+    } else {
+      nextOperations = [...operations, op];
     }
 
-    setData(newData);
-    
-    // Track as unsaved change
-    setUnsavedChanges(prev => [
-      ...prev,
-      {
-        keyPath: oldPath,
-        language: '__key_rename__',
-        originalValue: oldKey,
-        newValue: newKeyName
-      }
-    ]);
-  }, [data]);
+    commit(describeOperation(op), { data: applyOperation(data, op), operations: nextOperations });
+    return true;
+  }, [data, operations, commit]);
 
-  const addLanguage = useCallback((languageCode: string) => {
-    if (!data) return;
-    if (data.languages.includes(languageCode)) return;
-
-    const addLanguageToNode = (node: TranslationNode): TranslationNode => {
-      const result: TranslationNode = {};
-      
-      for (const [key, value] of Object.entries(node)) {
-        if (typeof value === 'object' && value !== null) {
-          // Check if it's a leaf node (has language codes as keys)
-          const keys = Object.keys(value);
-          const isLeaf = keys.some(k => data.languages.includes(k));
-          
-          if (isLeaf) {
-            result[key] = { ...(value as Record<string, string>), [languageCode]: '' };
-          } else {
-            result[key] = addLanguageToNode(value as TranslationNode);
-          }
-        }
+  const renameKey = useCallback((oldPath: string, newKeyName: string, options?: MoveOptions) => {
+    const { parentKeys, lastKey } = splitPath(oldPath);
+    if (lastKey === newKeyName || getKeyNameError(newKeyName)) return false;
+    return moveKey(oldPath, [...parentKeys, newKeyName].join('.'), options);
+  }, [moveKey]);
+
+  // Renames every key matching `pattern` as one undoable step; returns the
+  // number of keys that moved
+  const bulkRenameKeys = useCallback((pattern: RegExp, replacement: string, keepAliases = false) => {
+    if (!data) return 0;
+
+    const plan = planBulkRename(data, pattern, replacement, keepAliases);
+    const count = plan.renames.filter(rename => !rename.error).length;
+    if (count === 0) return 0;
+
+    commit(`Rename ${count} key${count !== 1 ? 's' : ''}`, {
+      data: applyOperations(data, plan.operations),
+      operations: [...operations, ...plan.operations]
+    });
+    return count;
+  }, [data, operations, commit]);
+
+  const removeAlias = useCallback((aliasPath: string) => {
+    if (!data?.aliases?.[aliasPath]) return false;
+
+    const op: TranslationOperation = { type: 'removeAlias', id: createOperationId(), aliasPath };
+    commit(describeOperation(op), { data: applyOperation(data, op), operations: [...operations, op] });
+    return true;
+  }, [data, operations, commit]);
+
+  const createKey = useCallback((keyPath: string) => {
+    if (!data || getNewKeyPathError(data.translations, keyPath)) return false;
+
+    const values = Object.fromEntries(data.languages.map(lang => [lang, '']));
+    const op: AddKeyOperation = { type: 'addKey', id: createOperationId(), keyPath, values };
+    commit(describeOperation(op), { data: applyOperation(data, op), operations: [...operations, op] });
+    return true;
+  }, [data, operations, commit]);
+
+  const createNamespace = useCallback((keyPath: string) => {
+    if (!data || getNewKeyPathError(data.translations, keyPath)) return false;
+
+    const op: AddNamespaceOperation = { type: 'addNamespace', id: createOperationId(), keyPath };
+    commit(describeOperation(op), { data: applyOperation(data, op), operations: [...operations, op] });
+    return true;
+  }, [data, operations, commit]);
+
+  // Copies a key's values to a new key; notes and review states stay with the original
+  const duplicateKey = useCallback((fromPath: string, toPath: string) => {
+    if (!data || getNewKeyPathError(data.translations, toPath)) return false;
+    const source = getNodeAt(data.translations, fromPath);
+    if (!isEntry(source)) return false;
+
+    const op: AddKeyOperation = { type: 'addKey', id: createOperationId(), keyPath: toPath, values: { ...source.values } };
+    commit(`Duplicate ${fromPath} as ${toPath}`, { data: applyOperation(data, op), operations: [...operations, op] });
+    return true;
+  }, [data, operations, commit]);
+
+  // Deletes a key or namespace. Pending edits inside it are dropped, and if it only
+  // exists because of pending operations those are dropped instead of sending a delete.
+  const deleteKey = useCallback((keyPath: string) => {
+    if (!data || !originalData || !getNodeAt(data.translations, keyPath)) return false;
+
+    const op: DeleteKeyOperation = { type: 'deleteKey', id: createOperationId(), keyPath };
+    const kept = operations.filter((o, index) => {
+      if (o.type !== 'setValue' && o.type !== 'setMetadata' && o.type !== 'addKey' && o.type !== 'addNamespace') {
+        return true;
       }
-      
-      return result;
-    };
+      const path = resolvePath(o.keyPath, operations.slice(index + 1));
+      return path !== keyPath && !path.startsWith(keyPath + '.');
+    });
+    const stillThere = getNodeAt(applyOperations(originalData, kept).translations, keyPath);
 
-    setData({
-      ...data,
-      languages: [...data.languages, languageCode],
-      translations: addLanguageToNode(data.translations)
+    commit(describeOperation(op), {
+      data: applyOperation(data, op),
+      operations: stillThere ? [...kept, op] : kept
     });
-  }, [data]);
+    return true;
+  }, [data, originalData, operations, commit]);
+
+  const addLanguage = useCallback((languageCode: string) => {
+    if (!data || data.languages.includes(languageCode)) return false;
+
+    const op: TranslationOperation = { type: 'addLanguage', id: createOperationId(), language: languageCode };
+    commit(describeOperation(op), { data: applyOperation(data, op), operations: [...operations, op] });
+    return true;
+  }, [data, operations, commit]);
 
   const removeLanguage = useCallback((languageCode: string) => {
-    if (!data) return;
-    if (data.languages.length <= 1) return;
-
-    const removeLanguageFromNode = (node: TranslationNode): TranslationNode => {
-      const result: TranslationNode = {};
-      
-      for (const [key, value] of Object.entries(node)) {
-        if (typeof value === 'object' && value !== null) {
-          const keys = Object.keys(value);
-          const isLeaf = keys.some(k => data.languages.includes(k));
-          
-          if (isLeaf) {
-            const { [languageCode]: _, ...rest } = value as Record<string, string>;
-            result[key] = rest;
-          } else {
-            result[key] = removeLanguageFromNode(value as TranslationNode);
-          }
-        }
+    if (!data || !data.languages.includes(languageCode) || data.languages.length <= 1) return false;
+
+    const op: TranslationOperation = { type: 'removeLanguage', id: createOperationId(), language: languageCode };
+
+    // Dropping a language added in this session cancels it out, along with its edits
+    const added = operations.findIndex(o => o.type === 'addLanguage' && o.language === languageCode);
+    const nextOperations = added >= 0
+      ? [
+          ...operations.slice(0, added),
+          ...operations.slice(added + 1).flatMap(o => withoutLanguage(o, languageCode) ?? [])
+        ]
+      : [...operations, op];
+
+    commit(describeOperation(op), { data: applyOperation(data, op), operations: nextOperations });
+    return true;
+  }, [data, operations, commit]);
+
+  const undo = useCallback(() => {
+    if (!data || past.length === 0) return null;
+
+    const entry = past[past.length - 1];
+    setPast(past.slice(0, -1));
+    setFuture(prev => [...prev, { label: entry.label, data, operations }]);
+    groupKeyRef.current = null;
+    setData(entry.data);
+    setOperations(entry.operations);
+    return entry.label;
+  }, [data, operations, past]);
+
+  const redo = useCallback(() => {
+    if (!data || future.length === 0) return null;
+
+    const entry = future[future.length - 1];
+    setFuture(future.slice(0, -1));
+    setPast(prev => [...prev, { label: entry.label, data, operations }]);
+    groupKeyRef.current = null;
+    setData(entry.data);
+    setOperations(entry.operations);
+    return entry.label;
+  }, [data, operations, future]);
+
+  // Pending operations leave the queue as soon as they are sent and the cache
+  // shows them as saved; a failed request puts both back
+  const saveMutation = useMutation({
+    mutationFn: (pending: TranslationOperation[]) => saveLanguageData(pending, project),
+    onMutate: async (pending: TranslationOperation[]) => {
+      await queryClient.cancelQueries({ queryKey });
+      const previous = queryClient.getQueryData<TranslationData>(queryKey);
+      const sent = new Set(pending.map(op => op.id));
+      // Operations go first so the snapshot below never sees them twice
+      setOperations(prev => prev.filter(op => !sent.has(op.id)));
+      if (previous) queryClient.setQueryData(queryKey, applyOperations(previous, pending));
+      // Older snapshots still reference the sent operations, so they can't be restored
+      clearHistory();
+      return { previous };
+    },
+    onError: (_err, pending, context) => {
+      setOperations(prev => [...pending, ...prev]);
+      if (context?.previous) queryClient.setQueryData(queryKey, context.previous);
+    },
+    onSuccess: ({ results }, pending, context) => {
+      // An operation counts as saved only if the server explicitly accepted it
+      const acceptedIds = new Set(results.filter(r => r.status === 'accepted').map(r => r.operationId));
+      const rejected = pending.filter(op => !acceptedIds.has(op.id));
+      if (rejected.length === 0) return;
+      setOperations(prev => [...rejected, ...prev]);
+      if (context?.previous) {
+        queryClient.setQueryData(
+          queryKey,
+          applyOperations(context.previous, pending.filter(op => acceptedIds.has(op.id)))
+        );
       }
-      
-      return result;
-    };
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey })
+  });
+  const { mutateAsync: sendOperations } = saveMutation;
 
-    setData({
-      ...data,
-      languages: data.languages.filter(l => l !== languageCode),
-      translations: removeLanguageFromNode(data.translations)
-    });
-  }, [data]);
+  const createMutation = useMutation({
+    mutationFn: (dataset: TranslationData) => createProject(dataset)
+  });
+  const { mutateAsync: createRemoteProject } = createMutation;
 
-  const saveChanges = useCallback(async () => {
-    if (!data) return;
-    
+  const saveChanges = useCallback(async (): Promise<SaveOutcome | null> => {
+    if (!data || !originalData) return null;
+    // A project imported while the backend was unreachable is created first,
+    // as imported; pending operations then go on top of it as usual
+    if (isLocalProject) {
+      try {
+        await createRemoteProject(originalData);
+      } catch {
+        return null;
+      }
+      setImported(prev => prev && { ...prev, onServer: true });
+    }
+    if (operations.length === 0) return { saved: 0, failed: [] };
+
+    const pending = operations;
+    let results: SaveOperationResult[];
     try {
-      // Simulate API call
-      await new Promise(resolve => setTimeout(resolve, 500));
-      setOriginalData(JSON.parse(JSON.stringify(data)));
-      setUnsavedChanges([]);
+      results = (await sendOperations(pending)).results;
+    } catch {
+      return null;
+    }
+
+    const acceptedIds = new Set(
+      results.filter(r => r.status === 'accepted').map(r => r.operationId)
+    );
+    const failed = pending
+      .filter(op => !acceptedIds.has(op.id))
+      .map(op => ({
+        operation: op,
+        reason: results.find(r => r.operationId === op.id)?.reason ?? 'No result returned for this change'
+      }));
+
+    return { saved: pending.length - failed.length, failed };
+  }, [data, originalData, operations, isLocalProject, createRemoteProject, sendOperations]);
+
+  const deleteMutation = useMutation({
+    // A local project has nothing on the backend to delete
+    mutationFn: () => (isLocalProject ? Promise.resolve(null) : deleteLanguageData(project)),
+    onMutate: async () => {
+      await queryClient.cancelQueries({ queryKey });
+      const previous = queryClient.getQueryData<TranslationData>(queryKey);
+      // Same as the server: only the name and languages survive, metadata and
+      // aliases go with the keys they describe
+      if (previous) {
+        queryClient.setQueryData<TranslationData>(queryKey, {
+          project: previous.project,
+          languages: previous.languages,
+          translations: {}
+        });
+      }
+      return { previous };
+    },
+    onError: (_err, _vars, context) => {
+      if (context?.previous) queryClient.setQueryData(queryKey, context.previous);
+    },
+    // Pending operations and undo steps all refer to keys that are gone now
+    onSuccess: () => {
+      setOperations([]);
+      clearHistory();
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey })
+  });
+  const { mutateAsync: deleteProjectData } = deleteMutation;
+
+  // Removes every key from the project on the server, keeping its name and languages
+  const deleteAllTranslations = useCallback(async () => {
+    try {
+      await deleteProjectData();
       return true;
     } catch {
       return false;
     }
-  }, [data]);
+  }, [deleteProjectData]);
 
   const discardChanges = useCallback(() => {
+    // Nothing of a local project is on the backend, so discarding drops the import
+    if (isLocalProject) {
+      setImported(null);
+      setOperations([]);
+      clearHistory();
+      return;
+    }
     if (originalData) {
-      setData(JSON.parse(JSON.stringify(originalData)));
-      setUnsavedChanges([]);
+      setData(originalData);
+      setOperations([]);
+      clearHistory();
     }
-  }, [originalData]);
-
-  const buildTree = useCallback((node: TranslationNode, path: string = '', depth: number = 0): TreeNode[] => {
-    if (!data) return [];
-    
-    return Object.entries(node).map(([key, value]) => {
-      const currentPath = path ? `${path}.${key}` : key;
-      const isLeaf = Object.keys(value).some(k => data.languages.includes(k));
-      
-      if (isLeaf) {
-        const values = value as Record<string, string>;
-        const filledCount = data.languages.filter(lang => values[lang]?.trim()).length;
-        const completeness = (filledCount / data.languages.length) * 100;
-        
+  }, [isLocalProject, originalData, clearHistory]);
+
+  // Creates the dataset as a project on the backend and makes it the working
+  // copy. A backend that can't be reached doesn't stop the import: the dataset
+  // is edited locally and the project is created on the next save.
+  const importDataset = useCallback(async (dataset: TranslationData): Promise<ImportOutcome> => {
+    let onServer = true;
+    try {
+      await createRemoteProject(dataset);
+    } catch (err) {
+      // The backend answered, but refused (the name is taken, the data is invalid)
+      if (!isAxiosError(err) || err.response) {
+        const serverMessage = isAxiosError(err) ? err.response?.data?.message : undefined;
         return {
-          key,
-          path: currentPath,
-          depth,
-          isLeaf: true,
-          values: values,
-          completeness
+          status: 'failed',
+          message: typeof serverMessage === 'string' ? serverMessage : 'Failed to create the project on the server'
         };
       }
-      
-      const children = buildTree(value as TranslationNode, currentPath, depth + 1);
-      const totalCompleteness = children.reduce((sum, child) => {
-        if (child.isLeaf) return sum + (child.completeness || 0);
-        return sum + (child.completeness || 0);
-      }, 0);
-      const avgCompleteness = children.length > 0 ? totalCompleteness / children.length : 100;
-      
-      return {
-        key,
-        path: currentPath,
-        depth,
-        isLeaf: false,
-        children,
-        completeness: avgCompleteness
-      };
-    });
-  }, [data]);
-
-  const exportToJson = useCallback((language?: string): Record<string, unknown> | null => {
-    if (!data) return null;
-
-    const extractLanguage = (node: TranslationNode, lang: string): Record<string, unknown> => {
-      const result: Record<string, unknown> = {};
-      
-      for (const [key, value] of Object.entries(node)) {
-        if (typeof value === 'object' && value !== null) {
-          const keys = Object.keys(value);
-          const isLeaf = keys.some(k => data.languages.includes(k));
-          
-          if (isLeaf) {
-            result[key] = (value as Record<string, string>)[lang] || '';
-          } else {
-            result[key] = extractLanguage(value as TranslationNode, lang);
-          }
-        }
-      }
-      
-      return result;
-    };
-
-    if (language) {
-      return extractLanguage(data.translations, language);
+      onServer = false;
     }
-    
-    return data.translations as Record<string, unknown>;
-  }, [data]);
+
+    // Seed the new project's cache so it opens without another round trip
+    queryClient.setQueryData(['translations', environment, dataset.project], dataset);
+    setOperations([]);
+    setImported({ environment, project: dataset.project, onServer });
+    return { status: onServer ? 'created' : 'local' };
+  }, [createRemoteProject, queryClient, environment]);
+
+  const { refetch: refetchQuery } = query;
+  const refetch = useCallback(() => {
+    refetchQuery();
+  }, [refetchQuery]);
+
+  const unsavedChanges = useMemo(() => getValueChanges(operations), [operations]);
+
 
   return {
     data,
-    loading,
-    error,
+    loading: query.isPending,
+    // A failed background refetch keeps the data on screen, so only report errors without it
+    error: data || !query.error ? null : toLoadError(query.error),
+    operations,
     unsavedChanges,
-    hasUnsavedChanges: unsavedChanges.length > 0,
+    hasUnsavedChanges: operations.length > 0 || isLocalProject,
+    isLocalProject,
     updateTranslation,
+    bulkUpdate,
+    endEditGroup,
     renameKey,
+    moveKey,
+    bulkRenameKeys,
+    removeAlias,
+    createKey,
+    createNamespace,
+    duplicateKey,
+    deleteKey,
     addLanguage,
     removeLanguage,
     saveChanges,
+    isSaving: createMutation.isPending || saveMutation.isPending,
+    deleteAllTranslations,
+    isDeleting: deleteMutation.isPending,
     discardChanges,
-    buildTree,
-    exportToJson,
-    refetch: fetchTranslations
+    importDataset,
+    undo,
+    redo,
+    canUndo: past.length > 0,
+    canRedo: future.length > 0,
+    undoLabel: past[past.length - 1]?.label ?? null,
+    redoLabel: future[future.length - 1]?.label ?? null,
+    refetch
   };
 };
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import type { TranslationData } from '@/types/translation';
+import { fromPayload } from './translationPayload';
+import { applyOperations, getNodeAt, listEntries } from './translationOperations';
+import { compileKeyPattern, globToRegExp, planBulkRename } from './bulkRename';
+
+const entry = (en: string) => ({ en });
+
+const makeData = (payload: Record<string, unknown>): TranslationData => ({
+  project: 'Test',
+  languages: ['en'],
+  translations: fromPayload(payload, ['en'])
+});
+
+const keyPaths = (data: TranslationData) => listEntries(data.translations).map(e => e.keyPath).sort();
+
+describe('globToRegExp', () => {
+  it('keeps * within a segment and lets ** span segments', () => {
+    expect(globToRegExp('auth.*').test('auth.title')).toBe(true);
+    expect(globToRegExp('auth.*').test('auth.errors.required')).toBe(false);
+    expect(globToRegExp('auth.**').test('auth.errors.required')).toBe(true);
+    expect(globToRegExp('a?c').test('abc')).toBe(true);
+    expect(globToRegExp('a?c').test('a.c')).toBe(false);
+  });
+
+  it('matches dots and other regex characters literally', () => {
+    expect(globToRegExp('a.b').test('axb')).toBe(false);
+    expect(globToRegExp('price(usd)').test('price(usd)')).toBe(true);
+  });
+
+  it('captures each wildcard for the replacement', () => {
+    expect('auth.login_label'.replace(globToRegExp('auth.*_label'), 'labels.$1')).toBe('labels.login');
+  });
+});
+
+describe('compileKeyPattern', () => {
+  it('throws on an invalid regex', () => {
+    expect(() => compileKeyPattern('(', 'regex')).toThrow();
+  });
+});
+
+describe('planBulkRename', () => {
+  it('renames matching keys and removes namespaces they leave empty', () => {
+    const data = makeData({
+      auth: { login_label: entry('Login'), logout_label: entry('Logout') },
+      common: { save: entry('Save') }
+    });
+    const plan = planBulkRename(data, globToRegExp('auth.*_label'), 'labels.$1');
+
+    expect(plan.renames).toEqual([
+      { fromPath: 'auth.login_label', toPath: 'labels.login', error: null },
+      { fromPath: 'auth.logout_label', toPath: 'labels.logout', error: null }
+    ]);
+    expect(plan.removedNamespaces).toEqual(['auth']);
+
+    const next = applyOperations(data, plan.operations);
+    expect(keyPaths(next)).toEqual(['common.save', 'labels.login', 'labels.logout']);
+    expect(getNodeAt(next.translations, 'auth')).toBeUndefined();
+  });
+
+  it('orders chained renames so a key can take a path another one leaves', () => {
+    const data = makeData({ ns: { x: entry('X'), x_old: entry('Old X') } });
+    const plan = planBulkRename(data, /^(ns\.x.*)$/, '$1_old');
+
+    expect(plan.renames.map(r => r.error)).toEqual([null, null]);
+    // x_old has to move away before x can take its place
+    expect(plan.operations.map(o => (o.type === 'moveKey' ? o.fromPath : null))).toEqual(['ns.x_old', 'ns.x']);
+
+    const next = applyOperations(data, plan.operations);
+    expect(keyPaths(next)).toEqual(['ns.x_old', 'ns.x_old_old']);
+    expect(getNodeAt(next.translations, 'ns.x_old')).toEqual({ kind: 'entry', values: { en: 'X' } });
+  });
+
+  it('flags keys that would end up on the same path', () => {
+    const data = makeData({ a: { x: entry('1') }, b: { x: entry('2') } });
+    const plan = planBulkRename(data, /^[ab]\./, 'c.');
+
+    expect(plan.renames.map(r => r.error)).toEqual([
+      '2 keys would be renamed to this path',
+      '2 keys would be renamed to this path'
+    ]);
+    expect(plan.operations).toEqual([]);
+  });
+
+  it('flags renames to a path that is taken by a key that stays', () => {
+    const data = makeData({ a: { x: entry('1') }, b: { x: entry('2') } });
+    const plan = planBulkRename(data, /^a\.x$/, 'b.x');
+
+    expect(plan.renames[0].error).toMatch(/already exists/);
+    expect(plan.operations).toEqual([]);
+  });
+
+  it('flags new paths with empty segments', () => {
+    const data = makeData({ a: { x: entry('1') } });
+    expect(planBulkRename(data, /x$/, '').renames[0].error).toMatch(/empty/);
+  });
+
+  it('marks keys as aliased when asked to', () => {
+    const data = makeData({ a: { x: entry('1') } });
+    const plan = planBulkRename(data, /^a\./, 'b.', true);
+    const next = applyOperations(data, plan.operations);
+
+    expect(next.aliases).toEqual({ 'a.x': 'b.x' });
+  });
+});
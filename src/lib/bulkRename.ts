@@ -0,0 +1,140 @@
+import type { TranslationData, TranslationOperation } from '../types/translation';
+import {
+  applyOperation,
+  createOperationId,
+  getKeyNameError,
+  getMoveKeyError,
+  getNodeAt,
+  listEntries,
+  splitPath
+} from './translationOperations';
+
+export type KeyPatternMode = 'regex' | 'glob';
+
+export interface BulkRename {
+  fromPath: string;
+  toPath: string;
+  // Why this key can't be renamed; it is left where it is
+  error: string | null;
+}
+
+export interface BulkRenamePlan {
+  // Every matched key whose path changes, in tree order
+  renames: BulkRename[];
+  // The moves that go through, in a working order, plus removal of the
+  // namespaces they leave empty
+  operations: TranslationOperation[];
+  removedNamespaces: string[];
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// `*` matches within one path segment, `**` across segments and `?` one
+// character. Each wildcard is a capture group, so replacements can use $1, $2...
+export const globToRegExp = (glob: string): RegExp => {
+  const source = glob
+    .split(/(\*\*|\*|\?)/)
+    .map(part => {
+      if (part === '**') return '(.*)';
+      if (part === '*') return '([^.]*)';
+      if (part === '?') return '([^.])';
+      return escapeRegExp(part);
+    })
+    .join('');
+  return new RegExp(`^${source}$`);
+};
+
+// Throws with the engine's message when a regex doesn't compile
+export const compileKeyPattern = (pattern: string, mode: KeyPatternMode): RegExp =>
+  mode === 'glob' ? globToRegExp(pattern) : new RegExp(pattern, 'g');
+
+const getRenamedPathError = (toPath: string) =>
+  toPath
+    .split('.')
+    .map(getKeyNameError)
+    .find(error => error !== null) ?? null;
+
+// Dry run of renaming every key whose path matches `pattern`. Keys are moved one
+// at a time against the tree as it would be after the previous moves, so a key
+// may take the path of another key that is itself being renamed.
+export const planBulkRename = (
+  data: TranslationData,
+  pattern: RegExp,
+  replacement: string,
+  keepAliases = false
+): BulkRenamePlan => {
+  const renames: BulkRename[] = listEntries(data.translations).flatMap(({ keyPath }) => {
+    if (keyPath.search(pattern) === -1) return [];
+    const toPath = keyPath.replace(pattern, replacement);
+    return toPath === keyPath ? [] : [{ fromPath: keyPath, toPath, error: getRenamedPathError(toPath) }];
+  });
+
+  const byTarget = new Map<string, BulkRename[]>();
+  renames.forEach(rename => byTarget.set(rename.toPath, [...(byTarget.get(rename.toPath) ?? []), rename]));
+  byTarget.forEach(group => {
+    if (group.length < 2) return;
+    group.forEach(rename => {
+      if (!rename.error) rename.error = `${group.length} keys would be renamed to this path`;
+    });
+  });
+
+  // A key whose new path is still taken by another matched key waits for that
+  // one to move away first
+  const bySource = new Map(renames.filter(rename => !rename.error).map(rename => [rename.fromPath, rename]));
+  const ordered: BulkRename[] = [];
+  const state = new Map<BulkRename, 'visiting' | 'done'>();
+  const visit = (rename: BulkRename) => {
+    if (state.get(rename) === 'done') return;
+    if (state.get(rename) === 'visiting') {
+      rename.error = 'Renames in a cycle can\'t be applied in one step';
+      return;
+    }
+    state.set(rename, 'visiting');
+    const blocker = bySource.get(rename.toPath);
+    if (blocker) {
+      visit(blocker);
+      if (blocker.error && !rename.error) rename.error = `"${rename.toPath}" is not renamed away`;
+    }
+    state.set(rename, 'done');
+    ordered.push(rename);
+  };
+  bySource.forEach(visit);
+
+  let current = data;
+  const operations: TranslationOperation[] = [];
+  ordered.forEach(rename => {
+    if (rename.error) return;
+    rename.error = getMoveKeyError(current.translations, rename.fromPath, rename.toPath);
+    if (rename.error) return;
+    const op: TranslationOperation = {
+      type: 'moveKey',
+      id: createOperationId(),
+      fromPath: rename.fromPath,
+      toPath: rename.toPath,
+      ...(keepAliases ? { keepAlias: true } : {})
+    };
+    current = applyOperation(current, op);
+    operations.push(op);
+  });
+
+  // Namespaces the moves emptied go too, deepest first so their parents can follow
+  const ancestors = new Set<string>();
+  operations.forEach(op => {
+    if (op.type !== 'moveKey') return;
+    const { parentKeys } = splitPath(op.fromPath);
+    parentKeys.forEach((_, index) => ancestors.add(parentKeys.slice(0, index + 1).join('.')));
+  });
+  const removedNamespaces: string[] = [];
+  [...ancestors]
+    .sort((a, b) => b.split('.').length - a.split('.').length)
+    .forEach(keyPath => {
+      const node = getNodeAt(current.translations, keyPath);
+      if (node?.kind !== 'namespace' || Object.keys(node.children).length > 0) return;
+      const op: TranslationOperation = { type: 'deleteKey', id: createOperationId(), keyPath };
+      current = applyOperation(current, op);
+      operations.push(op);
+      removedNamespaces.push(keyPath);
+    });
+
+  return { renames, operations, removedNamespaces };
+};
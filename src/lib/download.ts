@@ -0,0 +1,13 @@
+export function downloadFile(
+  fileName: string,
+  content: BlobPart,
+  type = "application/json"
+) {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,41 @@
+import type { TranslationData } from '@/types/translation';
+import { applyOperation, getNodeAt, listEntries } from '@/lib/translationOperations';
+
+// How renamed keys stay reachable in exported files:
+// "duplicate" repeats each aliased key under its old path, "redirects" adds an
+// aliases.json map of old path -> current path for the app to resolve itself
+export type AliasExportMode = 'none' | 'duplicate' | 'redirects';
+
+export const ALIASES_FILE_NAME = 'aliases.json';
+
+// Aliases that still lead somewhere and aren't shadowed by a real key
+export const getActiveAliases = (data: TranslationData): [string, string][] =>
+  Object.entries(data.aliases ?? {})
+    .filter(([aliasPath, target]) => getNodeAt(data.translations, target) && !getNodeAt(data.translations, aliasPath))
+    .sort(([a], [b]) => a.localeCompare(b));
+
+// Copies every aliased key (or every key of an aliased namespace) to its old path
+export const withAliasEntries = (data: TranslationData): TranslationData =>
+  getActiveAliases(data).reduce((result, [aliasPath, target]) => {
+    const node = getNodeAt(data.translations, target)!;
+    const entries = node.kind === 'entry'
+      ? [{ keyPath: aliasPath, values: node.values }]
+      : listEntries(node.children, aliasPath);
+    // addKey leaves the tree alone where an existing key blocks the path
+    return entries.reduce(
+      (next, { keyPath, values }) =>
+        getNodeAt(next.translations, keyPath)
+          ? next
+          : applyOperation(next, { type: 'addKey', id: `alias:${keyPath}`, keyPath, values }),
+      result
+    );
+  }, data);
+
+// A namespace alias redirects every path below it, so apps match it as a prefix
+export const serializeRedirectMap = (data: TranslationData) =>
+  JSON.stringify(Object.fromEntries(getActiveAliases(data)), null, 2) + '\n';
+
+export const hasActiveAliases = (data: TranslationData) => getActiveAliases(data).length > 0;
+
+export const applyAliasExport = (data: TranslationData, mode: AliasExportMode) =>
+  mode === 'duplicate' ? withAliasEntries(data) : data;
@@ -0,0 +1,103 @@
+import type { TranslationData } from '@/types/translation';
+import { listEntries } from '@/lib/translationOperations';
+import { PLURAL_CATEGORIES, PluralCategory, groupPlurals } from './plurals';
+import { MobileString, toPlatformKey, toPlatformPlural } from './platformKeys';
+
+// aapt treats quotes, apostrophes and a leading @ or ? specially
+export const escapeAndroid = (value: string) =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/'/g, "\\'")
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, '\\n')
+    .replace(/\t/g, '\\t')
+    .replace(/^([@?])/, '\\$1');
+
+// Reverses escapeAndroid on already XML-decoded text
+export const unescapeAndroid = (value: string) => {
+  const trimmed = value.trim();
+  // A value wrapped in double quotes is taken literally
+  const unquoted = /^".*"$/s.test(trimmed) ? trimmed.slice(1, -1) : trimmed;
+  return unquoted.replace(/\\(u[0-9a-fA-F]{4}|.)/g, (_, escape: string) => {
+    if (escape.length === 5) return String.fromCharCode(parseInt(escape.slice(1), 16));
+    return ({ n: '\n', t: '\t' } as Record<string, string>)[escape] ?? escape;
+  });
+};
+
+const comment = (note: string) => `    <!-- ${note.replace(/--/g, '- -')} -->`;
+
+// Empty values are left out so Android falls back to the default resources
+export const serializeAndroidStrings = (data: TranslationData, language: string, separator: string): string => {
+  const values = new Map(listEntries(data.translations).map(e => [e.keyPath, e.values]));
+  const get = (keyPath: string) => values.get(keyPath)?.[language] || '';
+
+  const blocks = groupPlurals(data).flatMap(({ keyPath, pluralKeys }) => {
+    const name = toPlatformKey(keyPath, separator, 'android');
+    const note = data.metadata?.[pluralKeys ? Object.values(pluralKeys)[0] : keyPath]?.note;
+    const lines = note ? [comment(note)] : [];
+
+    if (!pluralKeys) {
+      const value = get(keyPath);
+      if (!value) return [];
+      return [...lines, `    <string name="${name}">${escapeAndroid(value)}</string>`];
+    }
+
+    const items = PLURAL_CATEGORIES.flatMap(category => {
+      const value = pluralKeys[category] ? get(pluralKeys[category]) : '';
+      return value
+        ? [`        <item quantity="${category}">${escapeAndroid(toPlatformPlural(value))}</item>`]
+        : [];
+    });
+    if (items.length === 0) return [];
+    return [...lines, `    <plurals name="${name}">`, ...items, '    </plurals>'];
+  });
+
+  return ['<?xml version="1.0" encoding="utf-8"?>', '<resources>', ...blocks, '</resources>', ''].join('\n');
+};
+
+export const parseAndroidStrings = (content: string): MobileString[] => {
+  const doc = new DOMParser().parseFromString(content, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('File is not valid XML');
+  }
+  if (doc.documentElement.localName !== 'resources') {
+    throw new Error('Not an Android strings resource');
+  }
+
+  const strings: MobileString[] = [];
+  for (const element of Array.from(doc.documentElement.children)) {
+    const key = element.getAttribute('name');
+    if (!key || element.getAttribute('translatable') === 'false') continue;
+
+    if (element.localName === 'string') {
+      strings.push({ key, value: unescapeAndroid(element.textContent ?? '') });
+    } else if (element.localName === 'plurals') {
+      const plurals: Partial<Record<PluralCategory, string>> = {};
+      for (const item of Array.from(element.getElementsByTagName('item'))) {
+        const quantity = item.getAttribute('quantity') as PluralCategory | null;
+        if (quantity && PLURAL_CATEGORIES.includes(quantity)) {
+          plurals[quantity] = unescapeAndroid(item.textContent ?? '');
+        }
+      }
+      strings.push({ key, plurals });
+    }
+  }
+  return strings;
+};
+
+// "pt-BR" lives in values-pt-rBR; the source language is the default values folder
+export const androidValuesDir = (language: string, sourceLanguage: string) => {
+  if (language === sourceLanguage) return 'values';
+  const [lang, region] = language.split('-');
+  return region ? `values-${lang}-r${region.toUpperCase()}` : `values-${lang}`;
+};
+
+export const languageFromAndroidDir = (dir: string, sourceLanguage: string): string | null => {
+  if (dir === 'values') return sourceLanguage;
+  const match = dir.match(/^values-([a-z]{2,3})(?:-r([A-Z]{2}))?$/);
+  if (!match) return null;
+  return match[2] ? `${match[1]}-${match[2]}` : match[1];
+};
@@ -0,0 +1,102 @@
+import type { KeyMetadata, TranslationData } from '@/types/translation';
+import { listEntries } from '@/lib/translationOperations';
+import { ParsedLocaleFile, countKeys, resolveLanguage, treeFromFlatKeys } from './localeFiles';
+import { findKeyCollisions, toPlatformKey } from './platformKeys';
+import type { FormatAdapter } from './registry';
+
+// ARB keys must be Dart identifiers; the original path rides along in a custom attribute
+const KEY_PATH_ATTRIBUTE = 'x-key-path';
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const arbKey = (keyPath: string) => toPlatformKey(keyPath, '_', 'android');
+
+// An ARB file can't hold two messages with one name, so these block the export
+export const findArbKeyCollisions = (data: TranslationData) =>
+  findKeyCollisions(listEntries(data.translations).map(({ keyPath }) => keyPath), arbKey);
+
+export const serializeArb = (data: TranslationData, language: string): string => {
+  const collisions = findArbKeyCollisions(data);
+  if (collisions.length > 0) {
+    const [{ key, keyPaths }] = collisions;
+    throw new Error(
+      `${collisions.length} ARB message name(s) are shared by several keys, e.g. "${key}" (${keyPaths.join(', ')})`
+    );
+  }
+  const resource: Record<string, unknown> = { '@@locale': language.replace(/-/g, '_') };
+
+  for (const { keyPath, values } of listEntries(data.translations)) {
+    const key = arbKey(keyPath);
+    resource[key] = values[language] || '';
+
+    const meta = data.metadata?.[keyPath];
+    const attributes: Record<string, unknown> = {
+      ...(meta?.note ? { description: meta.note } : {}),
+      ...meta?.attributes,
+      ...(key !== keyPath ? { [KEY_PATH_ATTRIBUTE]: keyPath } : {})
+    };
+    if (Object.keys(attributes).length > 0) resource[`@${key}`] = attributes;
+  }
+
+  return JSON.stringify(resource, null, 2) + '\n';
+};
+
+export const parseArbFile = (fileName: string, content: string, languageOverride?: string): ParsedLocaleFile => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    throw new Error('File is not valid JSON');
+  }
+  if (!isPlainObject(parsed)) {
+    throw new Error('Expected a JSON object at the top level');
+  }
+
+  const declared = typeof parsed['@@locale'] === 'string' ? parsed['@@locale'].replace(/_/g, '-') : null;
+  const language = resolveLanguage(fileName, languageOverride, declared);
+
+  const entries: [string, string][] = [];
+  const metadata: { [keyPath: string]: KeyMetadata } = {};
+  for (const [key, value] of Object.entries(parsed)) {
+    // "@@" keys describe the file; "@key" entries are read alongside their message
+    if (key.startsWith('@') || typeof value !== 'string') continue;
+
+    const { description, [KEY_PATH_ATTRIBUTE]: originalPath, ...attributes } = isPlainObject(parsed[`@${key}`])
+      ? (parsed[`@${key}`] as Record<string, unknown>)
+      : {};
+    const keyPath = typeof originalPath === 'string' ? originalPath : key;
+    entries.push([keyPath, value]);
+
+    const entry: KeyMetadata = {
+      ...(typeof description === 'string' && description ? { note: description } : {}),
+      ...(Object.keys(attributes).length > 0 ? { attributes } : {})
+    };
+    if (Object.keys(entry).length > 0) metadata[keyPath] = entry;
+  }
+
+  const translations = treeFromFlatKeys(entries, language);
+  return {
+    fileName,
+    format: 'arb',
+    languages: [language],
+    translations,
+    keyCount: countKeys(translations),
+    ...(Object.keys(metadata).length > 0 ? { metadata } : {})
+  };
+};
+
+export const arbFormat: FormatAdapter = {
+  id: 'arb',
+  label: 'Flutter ARB',
+  // Some projects keep ARB content in plain .json files
+  extensions: ['.arb', '.json'],
+  mimeType: 'application/json',
+  detect: content => /"@@locale"\s*:|"@[^@"][^"]*"\s*:\s*\{/.test(content),
+  parse: parseArbFile,
+  export: {
+    scope: 'language',
+    fileName: (_, language) => `app_${language.replace(/-/g, '_')}.arb`,
+    serialize: serializeArb
+  }
+};
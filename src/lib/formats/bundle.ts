@@ -0,0 +1,167 @@
+import JSZip from 'jszip';
+import type { KeyMetadata, TranslationData, TranslationNode } from '@/types/translation';
+import { isEntry, listEntries } from '@/lib/translationOperations';
+import { ExportSettings, getFormat } from './registry';
+import { ALIASES_FILE_NAME, applyAliasExport, hasActiveAliases, serializeRedirectMap } from './aliases';
+
+export interface BundleOptions {
+  // Any registered format that writes one file per language
+  formatId: string;
+  // "en/common.json" per top-level namespace instead of a single "en.json"
+  splitNamespaces: boolean;
+}
+
+export const DEFAULT_BUNDLE_OPTIONS: BundleOptions = {
+  formatId: 'json',
+  splitNamespaces: true
+};
+
+export interface BundleManifestFile {
+  path: string;
+  namespace?: string;
+  keyCount: number;
+  bytes: number;
+  // SHA-256 of the file contents, hex encoded
+  hash: string;
+}
+
+export interface BundleManifestLanguage {
+  keyCount: number;
+  translated: number;
+  // 0-100, like the tree view
+  completeness: number;
+  files: BundleManifestFile[];
+}
+
+export interface BundleManifest {
+  project: string;
+  format: string;
+  generatedAt: string;
+  sourceLanguage: string;
+  namespaces: string[];
+  languages: { [languageCode: string]: BundleManifestLanguage };
+  // Changes whenever any file in the bundle does; handy as a deploy version
+  hash: string;
+  // Set when the bundle carries a redirect map of renamed keys
+  aliases?: string;
+}
+
+export const MANIFEST_FILE_NAME = 'manifest.json';
+
+// i18next's default namespace; keys at the top level have to live somewhere
+const ROOT_NAMESPACE = 'translation';
+
+const toHex = (buffer: ArrayBuffer) =>
+  [...new Uint8Array(buffer)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+
+const toBytes = (content: BlobPart) => new Blob([content]).arrayBuffer();
+
+const sha256 = async (bytes: BufferSource) => toHex(await crypto.subtle.digest('SHA-256', bytes));
+
+// Re-roots keys and metadata under a namespace so each file reads as a standalone project
+const sliceNamespace = (data: TranslationData, namespace: string | null): TranslationData => {
+  let translations: TranslationNode;
+  let inSlice: (keyPath: string) => string | null;
+
+  if (namespace === null) {
+    translations = Object.fromEntries(
+      Object.entries(data.translations).filter(([, child]) => isEntry(child))
+    );
+    inSlice = keyPath => (keyPath in translations ? keyPath : null);
+  } else {
+    const node = data.translations[namespace];
+    translations = node.kind === 'namespace' ? node.children : {};
+    inSlice = keyPath => (keyPath.startsWith(`${namespace}.`) ? keyPath.slice(namespace.length + 1) : null);
+  }
+
+  const metadata: { [keyPath: string]: KeyMetadata } = {};
+  for (const [keyPath, meta] of Object.entries(data.metadata ?? {})) {
+    const relative = inSlice(keyPath);
+    if (relative !== null) metadata[relative] = meta;
+  }
+
+  return { ...data, translations, metadata };
+};
+
+const planFiles = (data: TranslationData, splitNamespaces: boolean) => {
+  if (!splitNamespaces) return [{ namespace: undefined, data }];
+
+  const topLevel = Object.entries(data.translations);
+  const namespaces = topLevel
+    .filter(([, child]) => !isEntry(child))
+    .map(([key]) => key);
+  const hasRootKeys = topLevel.length > namespaces.length;
+  const rootName = namespaces.includes(ROOT_NAMESPACE) ? `_${ROOT_NAMESPACE}` : ROOT_NAMESPACE;
+
+  return [
+    ...(hasRootKeys ? [{ namespace: rootName, data: sliceNamespace(data, null) }] : []),
+    ...namespaces.map(namespace => ({ namespace, data: sliceNamespace(data, namespace) }))
+  ];
+};
+
+// Zips every language in the chosen format alongside a manifest.json describing the contents
+export const buildLocaleBundle = async (
+  source: TranslationData,
+  options: BundleOptions,
+  settings: ExportSettings
+): Promise<{ blob: Blob; manifest: BundleManifest }> => {
+  const data = applyAliasExport(source, settings.aliases);
+  const adapter = getFormat(options.formatId);
+  if (adapter?.export?.scope !== 'language') {
+    throw new Error(`${adapter?.label ?? options.formatId} can't be exported per language`);
+  }
+  const exporter = adapter.export;
+
+  const zip = new JSZip();
+  const files = planFiles(data, options.splitNamespaces);
+  const allEntries = listEntries(data.translations);
+  const languages: BundleManifest['languages'] = {};
+
+  for (const language of data.languages) {
+    const translated = allEntries.filter(({ values }) => values[language]?.trim()).length;
+    const manifestFiles: BundleManifestFile[] = [];
+
+    for (const file of files) {
+      const path = file.namespace
+        ? `${language}/${file.namespace}${adapter.extensions[0]}`
+        : exporter.fileName(data, language);
+      const bytes = await toBytes(exporter.serialize(file.data, language, settings));
+      zip.file(path, bytes);
+      manifestFiles.push({
+        path,
+        ...(file.namespace ? { namespace: file.namespace } : {}),
+        keyCount: listEntries(file.data.translations).length,
+        bytes: bytes.byteLength,
+        hash: await sha256(bytes)
+      });
+    }
+
+    languages[language] = {
+      keyCount: allEntries.length,
+      translated,
+      completeness: allEntries.length > 0 ? Math.round((translated / allEntries.length) * 1000) / 10 : 100,
+      files: manifestFiles
+    };
+  }
+
+  const fileHashes = Object.values(languages).flatMap(entry => entry.files.map(file => `${file.path}:${file.hash}`));
+  const redirects = settings.aliases === 'redirects' && hasActiveAliases(data);
+  if (redirects) {
+    const bytes = new TextEncoder().encode(serializeRedirectMap(data));
+    zip.file(ALIASES_FILE_NAME, bytes);
+    fileHashes.push(`${ALIASES_FILE_NAME}:${await sha256(bytes)}`);
+  }
+  const manifest: BundleManifest = {
+    project: data.project,
+    format: adapter.id,
+    generatedAt: new Date().toISOString(),
+    sourceLanguage: data.languages[0],
+    namespaces: files.flatMap(file => (file.namespace ? [file.namespace] : [])),
+    languages,
+    hash: await sha256(new TextEncoder().encode(fileHashes.join('\n'))),
+    ...(redirects ? { aliases: ALIASES_FILE_NAME } : {})
+  };
+  zip.file(MANIFEST_FILE_NAME, JSON.stringify(manifest, null, 2) + '\n');
+
+  return { blob: await zip.generateAsync({ type: 'blob' }), manifest };
+};
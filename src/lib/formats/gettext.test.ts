@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import type { TranslationData } from '@/types/translation';
+import { fromPayload } from '@/lib/translationPayload';
+import { parsePo, parsePoFile, planPoImport, serializeGettext } from './gettext';
+
+const data: TranslationData = {
+  project: 'App',
+  languages: ['en', 'de'],
+  translations: fromPayload(
+    {
+      cart: {
+        items_one: { en: '{{count}} item', de: '{{count}} Artikel' },
+        items_other: { en: '{{count}} items', de: '{{count}} Artikel' },
+        title: { en: 'Cart', de: '' }
+      }
+    },
+    ['en', 'de']
+  ),
+  metadata: { 'cart.title': { note: 'Page heading', states: { de: 'needs-review' } } }
+};
+
+const po = (body: string) => `msgid ""
+msgstr ""
+"Language: de\\n"
+"Plural-Forms: nplurals=2; plural=(n != 1);\\n"
+
+${body}`;
+
+describe('serializeGettext / parsePoFile', () => {
+  it('round-trips plurals, notes and review states', () => {
+    const parsed = parsePoFile('app-de.po', serializeGettext(data, 'en', 'de'));
+
+    expect(parsed.languages).toEqual(['de']);
+    expect(parsed.translations.cart).toEqual({
+      kind: 'namespace',
+      children: {
+        items_one: { kind: 'entry', values: { de: '{{count}} Artikel' } },
+        items_other: { kind: 'entry', values: { de: '{{count}} Artikel' } },
+        title: { kind: 'entry', values: { de: '' } }
+      }
+    });
+    expect(parsed.metadata?.['cart.title']?.note).toBe('Page heading');
+  });
+
+  it('keeps final states through a round trip', () => {
+    const reviewed: TranslationData = {
+      ...data,
+      translations: fromPayload({ cart: { title: { en: 'Cart', de: 'Warenkorb' } } }, ['en', 'de']),
+      metadata: { 'cart.title': { states: { de: 'final' } } }
+    };
+    const content = serializeGettext(reviewed, 'en', 'de');
+
+    expect(content).toContain('# state: final\nmsgctxt "cart.title"');
+    expect(parsePoFile('app-de.po', content).metadata?.['cart.title']?.states).toEqual({ de: 'final' });
+  });
+
+  it('reads fuzzy entries as needing review', () => {
+    const parsed = parsePoFile('x.po', po('#, fuzzy\nmsgctxt "cart.title"\nmsgid "Cart"\nmsgstr "Korb"\n'));
+    expect(parsed.metadata?.['cart.title']?.states).toEqual({ de: 'needs-review' });
+  });
+});
+
+describe('entries keyed by source text', () => {
+  const content = po(`msgid "Hello, world."
+msgstr "Hallo, Welt."
+
+msgid "Save"
+msgstr "Speichern"
+
+msgctxt "a..b"
+msgid "Broken"
+msgstr "Kaputt"
+`);
+
+  it('skips msgids and contexts that are not usable key paths and lists them', () => {
+    const parsed = parsePoFile('x.po', content);
+
+    expect(Object.keys(parsed.translations)).toEqual(['Save']);
+    expect(parsed.skippedKeys).toEqual(['Hello, world.', 'a..b']);
+  });
+
+  it('reports them as skipped when importing into a project', () => {
+    const plan = planPoImport(data, parsePo(content), 'de');
+    expect(plan.updates).toEqual([]);
+    expect(plan.unknownKeys).toEqual(['Save', 'Hello, world.', 'a..b']);
+  });
+});
+
+describe('parsePo', () => {
+  it('joins continuation lines and unescapes', () => {
+    const parsed = parsePo(po('msgctxt "a.b"\nmsgid ""\n"Line one\\n"\n"Line \\"two\\""\nmsgstr "x"\n'));
+    expect(parsed.language).toBe('de');
+    expect(parsed.entries[0]).toMatchObject({ context: 'a.b', id: 'Line one\nLine "two"', strings: ['x'] });
+  });
+
+  it('rejects lines it does not understand', () => {
+    expect(() => parsePo('msgid "a"\nnonsense\n')).toThrow(/Unexpected line/);
+  });
+});
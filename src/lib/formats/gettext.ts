@@ -0,0 +1,309 @@
+import type { KeyMetadata, TranslationData } from '@/types/translation';
+import { getKeyNameError, listEntries } from '@/lib/translationOperations';
+import { ImportPlan, ImportedEntry, planImport } from './importPlan';
+import { ParsedLocaleFile, countKeys, resolveLanguage, treeFromFlatKeys } from './localeFiles';
+import type { FormatAdapter } from './registry';
+import { PluralCategory, groupPlurals } from './plurals';
+
+interface PluralForms {
+  header: string;
+  // CLDR category for each msgstr[n] index
+  categories: PluralCategory[];
+}
+
+const TWO_FORMS: PluralForms = { header: 'nplurals=2; plural=(n != 1);', categories: ['one', 'other'] };
+const ONE_FORM: PluralForms = { header: 'nplurals=1; plural=0;', categories: ['other'] };
+const SLAVIC_FORMS: PluralForms = {
+  header: 'nplurals=3; plural=(n%10==1 && n%100!=11 ? 0 : n%10>=2 && n%10<=4 && (n%100<10 || n%100>=20) ? 1 : 2);',
+  categories: ['one', 'few', 'many']
+};
+
+// Plural-Forms headers for languages that don't follow the English one/other rule
+const PLURAL_FORMS: Record<string, PluralForms> = {
+  fr: { header: 'nplurals=2; plural=(n > 1);', categories: ['one', 'other'] },
+  pt: { header: 'nplurals=2; plural=(n > 1);', categories: ['one', 'other'] },
+  ru: SLAVIC_FORMS,
+  uk: SLAVIC_FORMS,
+  be: SLAVIC_FORMS,
+  pl: {
+    header: 'nplurals=3; plural=(n==1 ? 0 : n%10>=2 && n%10<=4 && (n%100<10 || n%100>=20) ? 1 : 2);',
+    categories: ['one', 'few', 'many']
+  },
+  cs: { header: 'nplurals=3; plural=(n==1) ? 0 : (n>=2 && n<=4) ? 1 : 2;', categories: ['one', 'few', 'other'] },
+  sk: { header: 'nplurals=3; plural=(n==1) ? 0 : (n>=2 && n<=4) ? 1 : 2;', categories: ['one', 'few', 'other'] },
+  ar: {
+    header: 'nplurals=6; plural=(n==0 ? 0 : n==1 ? 1 : n==2 ? 2 : n%100>=3 && n%100<=10 ? 3 : n%100>=11 ? 4 : 5);',
+    categories: ['zero', 'one', 'two', 'few', 'many', 'other']
+  },
+  ja: ONE_FORM,
+  ko: ONE_FORM,
+  zh: ONE_FORM,
+  vi: ONE_FORM,
+  th: ONE_FORM,
+  id: ONE_FORM
+};
+
+const pluralFormsFor = (language: string) => PLURAL_FORMS[language.split(/[-_]/)[0].toLowerCase()] ?? TWO_FORMS;
+
+const escapePo = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\t/g, '\\t').replace(/\r/g, '\\r').replace(/\n/g, '\\n');
+
+// Multi-line values are split after each \n, the way msgmerge writes them
+const poString = (keyword: string, value: string) => {
+  if (!value.includes('\n') || value.indexOf('\n') === value.length - 1) {
+    return `${keyword} "${escapePo(value)}"`;
+  }
+  const lines = value.split(/(?<=\n)/).map(line => `"${escapePo(line)}"`);
+  return [`${keyword} ""`, ...lines].join('\n');
+};
+
+// PO has no flag for approved translations, so "final" is kept in a translator comment
+const FINAL_MARKER = 'state: final';
+
+// Omitting `language` produces a .pot template with empty msgstr values
+export const serializeGettext = (data: TranslationData, sourceLanguage: string, language?: string): string => {
+  const values = new Map(listEntries(data.translations).map(e => [e.keyPath, e.values]));
+  const get = (keyPath: string, lang: string) => values.get(keyPath)?.[lang] || '';
+
+  const forms = language ? pluralFormsFor(language) : null;
+  const header = [
+    'msgid ""',
+    'msgstr ""',
+    `"Project-Id-Version: ${escapePo(data.project || 'translations')}\\n"`,
+    ...(language ? [`"Language: ${language}\\n"`] : []),
+    '"MIME-Version: 1.0\\n"',
+    '"Content-Type: text/plain; charset=UTF-8\\n"',
+    '"Content-Transfer-Encoding: 8bit\\n"',
+    `"Plural-Forms: ${forms ? forms.header : 'nplurals=INTEGER; plural=EXPRESSION;'}\\n"`
+  ].join('\n');
+
+  const blocks = groupPlurals(data).map(message => {
+    const memberKeys = message.pluralKeys ? Object.values(message.pluralKeys) : [message.keyPath];
+    const metadata = memberKeys.map(k => data.metadata?.[k]);
+    const note = metadata.find(m => m?.note)?.note;
+    const fuzzy = language && metadata.some(m => m?.states?.[language] === 'needs-review');
+    const final = language && !fuzzy && metadata.every(m => m?.states?.[language] === 'final');
+
+    const lines: string[] = [];
+    if (final) lines.push(`# ${FINAL_MARKER}`);
+    if (note) lines.push(...note.split('\n').map(line => `#. ${line}`));
+    if (fuzzy) lines.push('#, fuzzy');
+    lines.push(poString('msgctxt', message.keyPath));
+
+    if (!message.pluralKeys) {
+      lines.push(poString('msgid', get(message.keyPath, sourceLanguage)));
+      lines.push(poString('msgstr', language ? get(message.keyPath, language) : ''));
+      return lines.join('\n');
+    }
+
+    const { one, other } = message.pluralKeys;
+    lines.push(poString('msgid', get(one ?? other!, sourceLanguage)));
+    lines.push(poString('msgid_plural', get(other ?? one!, sourceLanguage)));
+    const categories = forms ? forms.categories : TWO_FORMS.categories;
+    categories.forEach((category, index) => {
+      const keyPath = message.pluralKeys![category] ?? other;
+      lines.push(poString(`msgstr[${index}]`, language && keyPath ? get(keyPath, language) : ''));
+    });
+    return lines.join('\n');
+  });
+
+  return [header, ...blocks].join('\n\n') + '\n';
+};
+
+export interface PoEntry {
+  context?: string;
+  id: string;
+  idPlural?: string;
+  strings: string[];
+  flags: string[];
+  // Extracted comments (#.), which hold notes
+  comments: string[];
+  // Translator comments (# ...)
+  translatorComments: string[];
+}
+
+export interface ParsedPo {
+  language?: string;
+  pluralCategories: PluralCategory[];
+  entries: PoEntry[];
+}
+
+const unescapePo = (value: string) =>
+  value.replace(/\\(.)/g, (_, char: string) =>
+    ({ n: '\n', t: '\t', r: '\r', '"': '"', '\\': '\\' })[char] ?? char
+  );
+
+export const parsePo = (content: string): ParsedPo => {
+  const entries: PoEntry[] = [];
+  let current: PoEntry | null = null;
+  let field: { name: 'context' | 'id' | 'idPlural' | 'string'; index: number } | null = null;
+
+  const startEntry = () => {
+    if (!current) current = { id: '', strings: [], flags: [], comments: [], translatorComments: [] };
+    return current;
+  };
+  const finishEntry = () => {
+    if (current) entries.push(current);
+    current = null;
+    field = null;
+  };
+  const append = (text: string) => {
+    if (!current || !field) return;
+    if (field.name === 'context') current.context = (current.context ?? '') + text;
+    else if (field.name === 'id') current.id += text;
+    else if (field.name === 'idPlural') current.idPlural = (current.idPlural ?? '') + text;
+    else current.strings[field.index] = (current.strings[field.index] ?? '') + text;
+  };
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    // A blank line or a new comment block after msgstr starts the next entry
+    if (!line) {
+      if (current && field?.name === 'string') finishEntry();
+      continue;
+    }
+    if (line.startsWith('#~')) continue;
+    if (line.startsWith('#')) {
+      if (field?.name === 'string') finishEntry();
+      const entry = startEntry();
+      if (line.startsWith('#,')) entry.flags.push(...line.slice(2).split(',').map(f => f.trim()).filter(Boolean));
+      else if (line.startsWith('#.')) entry.comments.push(line.slice(2).trim());
+      else if (line === '#' || line.startsWith('# ')) entry.translatorComments.push(line.slice(1).trim());
+      continue;
+    }
+
+    const keyword = line.match(/^(msgctxt|msgid_plural|msgid|msgstr(?:\[(\d+)\])?)\s+"(.*)"$/);
+    if (keyword) {
+      if ((keyword[1] === 'msgctxt' || keyword[1] === 'msgid') && field?.name === 'string') finishEntry();
+      const entry = startEntry();
+      if (keyword[1] === 'msgctxt') field = { name: 'context', index: 0 };
+      else if (keyword[1] === 'msgid') field = { name: 'id', index: 0 };
+      else if (keyword[1] === 'msgid_plural') field = { name: 'idPlural', index: 0 };
+      else field = { name: 'string', index: keyword[2] ? Number(keyword[2]) : 0 };
+      if (field.name === 'context') entry.context = '';
+      append(unescapePo(keyword[3]));
+      continue;
+    }
+
+    const continuation = line.match(/^"(.*)"$/);
+    if (continuation) {
+      append(unescapePo(continuation[1]));
+      continue;
+    }
+
+    throw new Error(`Unexpected line in PO file: ${line}`);
+  }
+  finishEntry();
+
+  // The entry with an empty msgid holds the file headers
+  const headerEntry = entries.find(e => e.id === '' && e.context === undefined);
+  const headers = Object.fromEntries(
+    (headerEntry?.strings[0] ?? '')
+      .split('\n')
+      .map(line => line.match(/^([^:]+):\s*(.*)$/))
+      .flatMap(m => (m ? [[m[1].trim().toLowerCase(), m[2].trim()]] : []))
+  );
+  const language = headers['language'] || undefined;
+
+  return {
+    language,
+    pluralCategories: language ? pluralFormsFor(language).categories : TWO_FORMS.categories,
+    entries: entries.filter(e => e !== headerEntry)
+  };
+};
+
+// Entries without a msgctxt fall back to their msgid as the key path. Source text
+// such as "Hello, world." doesn't split into usable segments, so it is rejected.
+const getPoKeyPath = (entry: PoEntry) => entry.context ?? entry.id;
+
+const isValidKeyPath = (keyPath: string) => keyPath.split('.').every(segment => getKeyNameError(segment) === null);
+
+// Key paths of the entries left out because they can't be used as keys
+export const getInvalidPoKeys = (po: ParsedPo) =>
+  po.entries.map(getPoKeyPath).filter(keyPath => !isValidKeyPath(keyPath));
+
+const toImportedEntries = (po: ParsedPo): ImportedEntry[][] =>
+  po.entries.flatMap(entry => {
+    const keyPath = getPoKeyPath(entry);
+    if (!isValidKeyPath(keyPath)) return [];
+    const state = entry.flags.includes('fuzzy')
+      ? 'needs-review' as const
+      : entry.translatorComments.includes(FINAL_MARKER) ? 'final' as const : 'translated' as const;
+    const note = entry.comments.length > 0 ? entry.comments.join('\n') : undefined;
+
+    if (entry.idPlural === undefined) {
+      return [[{ keyPath, value: entry.strings[0], state, note }]];
+    }
+    return [po.pluralCategories.map((category, index) => ({
+      keyPath: `${keyPath}_${category}`,
+      value: entry.strings[index],
+      state,
+      note
+    }))];
+  });
+
+export const planPoImport = (data: TranslationData, po: ParsedPo, language: string): ImportPlan => {
+  const known = new Set(listEntries(data.translations).map(e => e.keyPath));
+  const imported = toImportedEntries(po).flatMap(forms => {
+    // Forms the project doesn't track yet (e.g. "few" next to "one"/"other") are dropped quietly
+    const tracked = forms.filter(form => known.has(form.keyPath));
+    return tracked.length > 0 ? tracked : forms;
+  });
+
+  const plan = planImport(data, language, imported);
+  return { ...plan, unknownKeys: [...plan.unknownKeys, ...getInvalidPoKeys(po)] };
+};
+
+export const parsePoFile = (fileName: string, content: string, languageOverride?: string): ParsedLocaleFile => {
+  const po = parsePo(content);
+  const language = resolveLanguage(fileName, languageOverride, po.language);
+  // Plural msgstr[n] follow the rules of whatever language the file turns out to be
+  const entries = toImportedEntries({ ...po, pluralCategories: pluralFormsFor(language).categories }).flat();
+
+  const metadata: { [keyPath: string]: KeyMetadata } = {};
+  for (const { keyPath, value, state, note } of entries) {
+    const entry: KeyMetadata = {
+      ...(note ? { note } : {}),
+      ...(value ? { states: { [language]: state ?? 'translated' } } : {})
+    };
+    if (Object.keys(entry).length > 0) metadata[keyPath] = entry;
+  }
+
+  const translations = treeFromFlatKeys(entries.map(e => [e.keyPath, e.value ?? '']), language);
+  const skippedKeys = getInvalidPoKeys(po);
+  return {
+    fileName,
+    format: 'po',
+    languages: [language],
+    translations,
+    keyCount: countKeys(translations),
+    ...(Object.keys(metadata).length > 0 ? { metadata } : {}),
+    ...(skippedKeys.length > 0 ? { skippedKeys } : {})
+  };
+};
+
+// The first language is the source: it fills msgid and the .pot template
+export const poFormat: FormatAdapter = {
+  id: 'po',
+  label: 'Gettext .po',
+  extensions: ['.po'],
+  mimeType: 'text/x-gettext-translation',
+  parse: parsePoFile,
+  export: {
+    scope: 'language',
+    fileName: (data, language) => `${data.project || 'translations'}-${language}.po`,
+    serialize: (data, language) => serializeGettext(data, data.languages[0], language)
+  }
+};
+
+export const potFormat: FormatAdapter = {
+  id: 'pot',
+  label: 'Gettext template (.pot)',
+  extensions: ['.pot'],
+  mimeType: 'text/x-gettext-translation',
+  export: {
+    scope: 'project',
+    fileName: data => `${data.project || 'translations'}.pot`,
+    serialize: data => serializeGettext(data, data.languages[0])
+  }
+};
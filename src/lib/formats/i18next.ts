@@ -0,0 +1,140 @@
+import type { TranslationData, TranslationNode } from '@/types/translation';
+import { getKeyNameError } from '@/lib/translationOperations';
+
+export type I18nextStyle = 'nested' | 'flat';
+
+export interface I18nextExportOptions {
+  style: I18nextStyle;
+  sortKeys: boolean;
+  // 0 writes minified JSON
+  indent: number;
+}
+
+export const DEFAULT_I18NEXT_EXPORT_OPTIONS: I18nextExportOptions = {
+  style: 'nested',
+  sortKeys: false,
+  indent: 2
+};
+
+type NestedResource = { [key: string]: string | NestedResource };
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// One language's values, keeping the namespace nesting
+export const extractLanguage = (node: TranslationNode, language: string): NestedResource => {
+  const result: NestedResource = {};
+
+  for (const [key, child] of Object.entries(node)) {
+    result[key] = child.kind === 'entry' ? child.values[language] || '' : extractLanguage(child.children, language);
+  }
+
+  return result;
+};
+
+export const flattenResource = (resource: NestedResource, prefix = ''): Record<string, string> => {
+  const result: Record<string, string> = {};
+  for (const [key, value] of Object.entries(resource)) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (typeof value === 'string') {
+      result[path] = value;
+    } else {
+      Object.assign(result, flattenResource(value, path));
+    }
+  }
+  return result;
+};
+
+// "a" next to "a.b" can't be represented, so that throws instead of dropping one
+export const unflattenResource = (flat: Record<string, unknown>): Record<string, unknown> => {
+  const result: Record<string, unknown> = {};
+  for (const [path, value] of Object.entries(flat)) {
+    const keys = path.split('.');
+    let current = result;
+    keys.slice(0, -1).forEach((key, index) => {
+      if (current[key] === undefined) current[key] = {};
+      if (!isPlainObject(current[key])) {
+        throw new Error(`"${keys.slice(0, index + 1).join('.')}" is both a key and a namespace`);
+      }
+      current = current[key] as Record<string, unknown>;
+    });
+    const lastKey = keys[keys.length - 1];
+    if (isPlainObject(current[lastKey])) {
+      throw new Error(`"${path}" is both a key and a namespace`);
+    }
+    current[lastKey] = value;
+  }
+  return result;
+};
+
+const sortResource = <T extends Record<string, unknown>>(resource: T): T =>
+  Object.fromEntries(
+    Object.keys(resource)
+      .sort((a, b) => a.localeCompare(b))
+      .map(key => {
+        const value = resource[key];
+        return [key, isPlainObject(value) ? sortResource(value) : value];
+      })
+  ) as T;
+
+export const serializeI18next = (
+  data: TranslationData,
+  language: string,
+  options: I18nextExportOptions = DEFAULT_I18NEXT_EXPORT_OPTIONS
+): string => {
+  const nested = extractLanguage(data.translations, language);
+  let resource: Record<string, unknown> = options.style === 'flat' ? flattenResource(nested) : nested;
+  if (options.sortKeys) resource = sortResource(resource);
+  return JSON.stringify(resource, null, options.indent > 0 ? options.indent : undefined) + '\n';
+};
+
+// Flat files have only string values at the top and dotted keys
+export const isFlatResource = (resource: Record<string, unknown>) => {
+  const entries = Object.entries(resource);
+  return entries.length > 0
+    && entries.every(([, value]) => typeof value === 'string')
+    && entries.some(([key]) => key.includes('.'));
+};
+
+const isValidKeyPath = (keyPath: string) => keyPath.split('.').every(segment => getKeyNameError(segment) === null);
+
+// Turns a single-language resource into leaves keyed by that language. Keys that
+// can't be used as key names are left out and their paths added to `skippedKeys`.
+export const wrapLanguage = (
+  node: Record<string, unknown>,
+  language: string,
+  skippedKeys: string[] = [],
+  prefix = ''
+): TranslationNode => {
+  const result: TranslationNode = {};
+  for (const [key, value] of Object.entries(node)) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (getKeyNameError(key)) {
+      skippedKeys.push(path);
+    } else if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+      result[key] = { kind: 'entry', values: { [language]: String(value) } };
+    } else if (isPlainObject(value)) {
+      result[key] = { kind: 'namespace', children: wrapLanguage(value, language, skippedKeys, path) };
+    }
+  }
+  return result;
+};
+
+export const parseI18next = (
+  resource: Record<string, unknown>,
+  language: string
+): { style: I18nextStyle; translations: TranslationNode; skippedKeys: string[] } => {
+  const style: I18nextStyle = isFlatResource(resource) ? 'flat' : 'nested';
+  const skippedKeys: string[] = [];
+  if (style === 'nested') {
+    return { style, translations: wrapLanguage(resource, language, skippedKeys), skippedKeys };
+  }
+
+  // "e.g." or "a..b" would split into an empty segment, so those are dropped whole
+  const valid = Object.fromEntries(Object.entries(resource).filter(([keyPath]) => {
+    if (isValidKeyPath(keyPath)) return true;
+    skippedKeys.push(keyPath);
+    return false;
+  }));
+  return { style, translations: wrapLanguage(unflattenResource(valid), language, skippedKeys), skippedKeys };
+};
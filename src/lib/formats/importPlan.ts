@@ -0,0 +1,50 @@
+import type { KeyMetadata, TranslationData, TranslationState } from '@/types/translation';
+import { getNodeAt, isEntry } from '@/lib/translationOperations';
+
+// A translated value coming back from an external file for one language
+export interface ImportedEntry {
+  keyPath: string;
+  value?: string;
+  state?: TranslationState;
+  note?: string;
+}
+
+export interface ImportPlan {
+  updates: { keyPath: string; language: string; value: string }[];
+  metadataUpdates: { keyPath: string; metadata: KeyMetadata }[];
+  unknownKeys: string[];
+}
+
+// Works out which imported values, notes and states differ from the project
+export const planImport = (data: TranslationData, language: string, entries: ImportedEntry[]): ImportPlan => {
+  const plan: ImportPlan = { updates: [], metadataUpdates: [], unknownKeys: [] };
+
+  for (const entry of entries) {
+    const node = getNodeAt(data.translations, entry.keyPath);
+    if (!isEntry(node)) {
+      plan.unknownKeys.push(entry.keyPath);
+      continue;
+    }
+
+    // An empty value means "not translated yet", never "clear this value"
+    if (entry.value && entry.value !== (node.values[language] || '')) {
+      plan.updates.push({ keyPath: entry.keyPath, language, value: entry.value });
+    }
+
+    const current = data.metadata?.[entry.keyPath] ?? {};
+    const note = entry.note ?? current.note;
+    const state = entry.value ? entry.state : undefined;
+    if (note !== current.note || (state && state !== current.states?.[language])) {
+      plan.metadataUpdates.push({
+        keyPath: entry.keyPath,
+        metadata: {
+          ...current,
+          ...(note !== undefined ? { note } : {}),
+          states: { ...current.states, ...(state ? { [language]: state } : {}) }
+        }
+      });
+    }
+  }
+
+  return plan;
+};
@@ -0,0 +1,35 @@
+import { registerFormat } from './registry';
+import { jsonFormat, jsonMultiFormat } from './json';
+import { arbFormat } from './arb';
+import { yamlFormat } from './yaml';
+import { propertiesFormat } from './properties';
+import { resxFormat } from './resx';
+import { poFormat, potFormat } from './gettext';
+import { xliffFormat } from './xliff';
+import { csvFormat, xlsxFormat } from './spreadsheet';
+
+// Built-in formats, in the order the export menu lists them
+[
+  jsonMultiFormat,
+  jsonFormat,
+  arbFormat,
+  yamlFormat,
+  propertiesFormat,
+  resxFormat,
+  poFormat,
+  potFormat,
+  xliffFormat,
+  csvFormat,
+  xlsxFormat
+].forEach(registerFormat);
+
+export {
+  detectFormat,
+  getFormat,
+  getFormats,
+  getImportAccept,
+  parseLocaleFile,
+  registerFormat
+} from './registry';
+export type { ExportSettings, FormatAdapter, FormatExporter } from './registry';
+export type { AliasExportMode } from './aliases';
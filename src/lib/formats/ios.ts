@@ -0,0 +1,143 @@
+import type { TranslationData } from '@/types/translation';
+import { listEntries } from '@/lib/translationOperations';
+import { PLURAL_CATEGORIES, PluralCategory, groupPlurals } from './plurals';
+import { MobileString, toPlatformKey, toPlatformPlural } from './platformKeys';
+
+const escapeStrings = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n').replace(/\t/g, '\\t');
+
+const unescapeStrings = (value: string) =>
+  value.replace(/\\(U[0-9a-fA-F]{4}|u[0-9a-fA-F]{4}|.)/g, (_, escape: string) => {
+    if (escape.length === 5) return String.fromCharCode(parseInt(escape.slice(1), 16));
+    return ({ n: '\n', t: '\t', r: '\r' } as Record<string, string>)[escape] ?? escape;
+  });
+
+const escapePlist = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+// Plural keys go to the .stringsdict; empty values are left out so iOS falls back to the development language
+export const serializeIosStrings = (data: TranslationData, language: string, separator: string): string => {
+  const values = new Map(listEntries(data.translations).map(e => [e.keyPath, e.values]));
+
+  const blocks = groupPlurals(data).flatMap(({ keyPath, pluralKeys }) => {
+    const value = values.get(keyPath)?.[language];
+    if (pluralKeys || !value) return [];
+    const note = data.metadata?.[keyPath]?.note;
+    const key = toPlatformKey(keyPath, separator, 'ios');
+    return [
+      [
+        ...(note ? [`/* ${note.replace(/\*\//g, '* /')} */`] : []),
+        `"${escapeStrings(key)}" = "${escapeStrings(value)}";`
+      ].join('\n')
+    ];
+  });
+
+  return blocks.join('\n\n') + '\n';
+};
+
+// Returns null when the project has no plural keys
+export const serializeStringsdict = (data: TranslationData, language: string, separator: string): string | null => {
+  const values = new Map(listEntries(data.translations).map(e => [e.keyPath, e.values]));
+
+  const entries = groupPlurals(data).flatMap(({ keyPath, pluralKeys }) => {
+    if (!pluralKeys) return [];
+    const forms = PLURAL_CATEGORIES.flatMap(category => {
+      const value = pluralKeys[category] ? values.get(pluralKeys[category])?.[language] : '';
+      return value
+        ? [`      <key>${category}</key>`, `      <string>${escapePlist(toPlatformPlural(value))}</string>`]
+        : [];
+    });
+    if (forms.length === 0) return [];
+    return [
+      `  <key>${escapePlist(toPlatformKey(keyPath, separator, 'ios'))}</key>`,
+      '  <dict>',
+      '    <key>NSStringLocalizedFormatKey</key>',
+      '    <string>%#@count@</string>',
+      '    <key>count</key>',
+      '    <dict>',
+      '      <key>NSStringFormatSpecTypeKey</key>',
+      '      <string>NSStringPluralRuleType</string>',
+      '      <key>NSStringFormatValueTypeKey</key>',
+      '      <string>d</string>',
+      ...forms,
+      '    </dict>',
+      '  </dict>'
+    ];
+  });
+
+  if (entries.length === 0) return null;
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<!DOCTYPE plist PUBLIC "-//Apple//DTD PLIST 1.0//EN" "http://www.apple.com/DTDs/PropertyList-1.0.dtd">',
+    '<plist version="1.0">',
+    '<dict>',
+    ...entries,
+    '</dict>',
+    '</plist>',
+    ''
+  ].join('\n');
+};
+
+export const parseIosStrings = (content: string): MobileString[] => {
+  const strings: MobileString[] = [];
+  // "key" = "value"; pairs, with /* */ and // comments in between
+  const token = /\/\*[\s\S]*?\*\/|\/\/[^\n]*|"((?:[^"\\]|\\.)*)"\s*=\s*"((?:[^"\\]|\\.)*)"\s*;|(\S)/g;
+
+  for (const match of content.matchAll(token)) {
+    if (match[3] !== undefined) {
+      throw new Error(`Unexpected "${match[3]}" in .strings file`);
+    }
+    if (match[1] !== undefined) {
+      strings.push({ key: unescapeStrings(match[1]), value: unescapeStrings(match[2]) });
+    }
+  }
+  return strings;
+};
+
+// Children of a plist <dict> as key -> value element pairs
+const dictEntries = (dict: Element) => {
+  const children = Array.from(dict.children);
+  const result: [string, Element][] = [];
+  for (let i = 0; i + 1 < children.length; i += 2) {
+    if (children[i].localName === 'key') result.push([children[i].textContent ?? '', children[i + 1]]);
+  }
+  return result;
+};
+
+export const parseStringsdict = (content: string): MobileString[] => {
+  const doc = new DOMParser().parseFromString(content, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('File is not valid XML');
+  }
+  const root = doc.documentElement.localName === 'plist' ? doc.documentElement.firstElementChild : null;
+  if (!root || root.localName !== 'dict') {
+    throw new Error('Not a .stringsdict property list');
+  }
+
+  return dictEntries(root).flatMap(([key, entry]) => {
+    if (entry.localName !== 'dict') return [];
+    // The plural rule sits in whichever variable dict declares NSStringPluralRuleType
+    const rule = dictEntries(entry)
+      .map(([, value]) => value)
+      .find(value =>
+        value.localName === 'dict'
+        && dictEntries(value).some(([k, v]) => k === 'NSStringFormatSpecTypeKey' && v.textContent === 'NSStringPluralRuleType')
+      );
+    if (!rule) return [];
+
+    const plurals: Partial<Record<PluralCategory, string>> = {};
+    for (const [category, value] of dictEntries(rule)) {
+      if (PLURAL_CATEGORIES.includes(category as PluralCategory)) {
+        plurals[category as PluralCategory] = value.textContent ?? '';
+      }
+    }
+    return [{ key, plurals }];
+  });
+};
+
+// "de.lproj" -> "de"; Base.lproj holds the source language
+export const languageFromLproj = (dir: string, sourceLanguage: string): string | null => {
+  const match = dir.match(/^(.+)\.lproj$/);
+  if (!match) return null;
+  return match[1] === 'Base' ? sourceLanguage : match[1].replace(/_/g, '-');
+};
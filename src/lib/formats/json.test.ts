@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { parseLocaleFile } from './index';
+import { mergeLocaleFiles } from './json';
+
+const parse = (fileName: string, content: unknown, languageOverride?: string) =>
+  parseLocaleFile(fileName, JSON.stringify(content), languageOverride);
+
+describe('multi-language JSON detection', () => {
+  it('reads the dashboard envelope as multi-language', () => {
+    const parsed = parse('backup.json', {
+      project: 'App',
+      languages: ['en', 'de'],
+      translations: { auth: { title: { en: 'Login', de: 'Anmelden' } } }
+    });
+    expect(parsed).toMatchObject({ format: 'json-multi', languages: ['en', 'de'], project: 'App' });
+  });
+
+  it('reads a tree keyed by known language codes as multi-language', () => {
+    const parsed = parse('translations-all.json', { auth: { title: { en: 'Login', 'pt-BR': 'Entrar' } } });
+    expect(parsed).toMatchObject({ format: 'json-multi', languages: ['en', 'pt-BR'] });
+  });
+
+  it('keeps short i18next keys that only look like language codes in one language', () => {
+    const parsed = parse('de.json', { ok: 'OK', yes: 'Ja', no: 'Nein', add: 'Hinzufügen', cta_btn: 'Los' });
+    expect(parsed).toMatchObject({ format: 'json', languages: ['de'], keyCount: 5 });
+  });
+
+  it('trusts a file name that names a language over leaf keys that happen to be codes', () => {
+    const parsed = parse('fr.json', { menu: { de: 'Allemand', en: 'Anglais' } });
+    expect(parsed).toMatchObject({ format: 'json', languages: ['fr'] });
+  });
+
+  it('skips and lists multi-language keys that cannot be used as key names', () => {
+    const parsed = parse('backup.json', {
+      languages: ['en', 'de'],
+      translations: { abbr: { 'e.g.': { en: 'e.g.', de: 'z. B.' }, ok: { en: 'OK', de: 'OK' } } }
+    });
+    expect(parsed.skippedKeys).toEqual(['abbr.e.g.']);
+    expect(parsed.keyCount).toBe(1);
+  });
+
+  it('lets an explicit language win over detection', () => {
+    const parsed = parse('all.json', { menu: { de: 'x', en: 'y' } }, 'it');
+    expect(parsed).toMatchObject({ format: 'json', languages: ['it'] });
+  });
+});
+
+describe('single-language JSON', () => {
+  it('reads nested and flat files to the same tree', () => {
+    const nested = parse('en.json', { auth: { title: 'Login' } });
+    const flat = parse('en.json', { 'auth.title': 'Login' });
+
+    expect(nested.variant).toBe('nested');
+    expect(flat.variant).toBe('flat keys');
+    expect(flat.translations).toEqual(nested.translations);
+  });
+
+  it('rejects flat keys that are both a key and a namespace', () => {
+    expect(() => parse('en.json', { a: 'x', 'a.b': 'y' })).toThrow('"a" is both a key and a namespace');
+    expect(() => parse('en.json', { 'a.b': 'y', a: 'x' })).toThrow('"a" is both a key and a namespace');
+  });
+
+  it('skips and lists keys that cannot be used as key names', () => {
+    const nested = parse('en.json', { abbr: { 'e.g.': 'for example', ok: 'OK' }, '': 'Blank' });
+    expect(nested.skippedKeys).toEqual(['abbr.e.g.', '']);
+    expect(nested.keyCount).toBe(1);
+
+    const flat = parse('en.json', { 'abbr.e.g.': 'for example', 'abbr..ok': 'OK', 'abbr.ok': 'OK' });
+    expect(flat.skippedKeys).toEqual(['abbr.e.g.', 'abbr..ok']);
+    expect(flat.keyCount).toBe(1);
+
+    const yaml = parseLocaleFile('en.yml', 'en:\n  abbr:\n    "e.g.": for example\n    ok: OK\n');
+    expect(yaml.skippedKeys).toEqual(['abbr.e.g.']);
+    expect(yaml.keyCount).toBe(1);
+  });
+
+  it('fails without a language to go on', () => {
+    expect(() => parse('common.json', { title: 'Hi' })).toThrow(/which language/);
+  });
+
+  it('rejects invalid JSON and non-object roots', () => {
+    expect(() => parseLocaleFile('en.json', '{')).toThrow(/not valid JSON/);
+    expect(() => parse('en.json', ['a'])).toThrow(/JSON object/);
+  });
+});
+
+describe('mergeLocaleFiles', () => {
+  it('combines one file per language and fills missing values', () => {
+    const merged = mergeLocaleFiles(
+      [parse('en.json', { auth: { title: 'Login', hint: 'Hint' } }), parse('de.json', { auth: { title: 'Anmelden' } })],
+      'App'
+    );
+
+    expect(merged.languages).toEqual(['en', 'de']);
+    expect(merged.translations.auth).toEqual({
+      kind: 'namespace',
+      children: {
+        title: { kind: 'entry', values: { en: 'Login', de: 'Anmelden' } },
+        hint: { kind: 'entry', values: { en: 'Hint', de: '' } }
+      }
+    });
+  });
+});
@@ -0,0 +1,205 @@
+import type { TranslationData, TranslationNode } from '@/types/translation';
+import { getKeyNameError } from '@/lib/translationOperations';
+import { fromPayload, toPayload } from '@/lib/translationPayload';
+import { parseI18next, serializeI18next } from './i18next';
+import {
+  ParsedLocaleFile,
+  countKeys,
+  detectLanguageFromFileName,
+  isKnownLanguageCode,
+  resolveLanguage
+} from './localeFiles';
+import type { FormatAdapter } from './registry';
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Keys that directly hold strings; in a multi-language tree these are all language codes
+const collectStringKeys = (node: Record<string, unknown>, keys: Set<string>) => {
+  for (const [key, value] of Object.entries(node)) {
+    if (typeof value === 'string') keys.add(key);
+    else if (isPlainObject(value)) collectStringKeys(value, keys);
+  }
+  return keys;
+};
+
+// A tree whose leaves are all keyed by known language codes, from a file whose
+// name doesn't already say which language it holds. Returns those codes.
+const getTreeLanguages = (parsed: Record<string, unknown>, fileName: string): string[] | null => {
+  const named = detectLanguageFromFileName(fileName);
+  if (named && isKnownLanguageCode(named)) return null;
+  const stringKeys = [...collectStringKeys(parsed, new Set())];
+  return stringKeys.length > 0 && stringKeys.every(isKnownLanguageCode) ? stringKeys : null;
+};
+
+// Nested keys (never the language-keyed values) that can't be used as key names
+// are left out and listed, instead of failing the whole file
+const dropInvalidKeys = (
+  node: Record<string, unknown>,
+  skippedKeys: string[],
+  prefix = ''
+): Record<string, unknown> =>
+  Object.fromEntries(
+    Object.entries(node).flatMap(([key, value]) => {
+      if (!isPlainObject(value)) return [[key, value]];
+      const path = prefix ? `${prefix}.${key}` : key;
+      if (getKeyNameError(key)) {
+        skippedKeys.push(path);
+        return [];
+      }
+      return [[key, dropInvalidKeys(value, skippedKeys, path)]];
+    })
+  );
+
+export const parseJsonLocaleFile = (
+  fileName: string,
+  content: string,
+  languageOverride?: string
+): ParsedLocaleFile => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    throw new Error('File is not valid JSON');
+  }
+  if (!isPlainObject(parsed)) {
+    throw new Error('Expected a JSON object at the top level');
+  }
+
+  // Full dashboard export: { project, languages, translations }
+  if (isPlainObject(parsed.translations) && Array.isArray(parsed.languages)) {
+    const languages = parsed.languages.map(String);
+    const skippedKeys: string[] = [];
+    const translations = fromPayload(dropInvalidKeys(parsed.translations, skippedKeys), languages);
+    return {
+      fileName,
+      format: 'json-multi',
+      languages,
+      translations,
+      keyCount: countKeys(translations),
+      project: typeof parsed.project === 'string' ? parsed.project : undefined,
+      ...(skippedKeys.length > 0 ? { skippedKeys } : {})
+    };
+  }
+
+  const treeLanguages = languageOverride ? null : getTreeLanguages(parsed, fileName);
+  if (treeLanguages) {
+    const skippedKeys: string[] = [];
+    const translations = fromPayload(dropInvalidKeys(parsed, skippedKeys), treeLanguages);
+    return {
+      fileName,
+      format: 'json-multi',
+      languages: treeLanguages,
+      translations,
+      keyCount: countKeys(translations),
+      ...(skippedKeys.length > 0 ? { skippedKeys } : {})
+    };
+  }
+
+  const language = resolveLanguage(fileName, languageOverride);
+  const { style, translations, skippedKeys } = parseI18next(parsed, language);
+  return {
+    fileName,
+    format: 'json',
+    variant: style === 'flat' ? 'flat keys' : 'nested',
+    languages: [language],
+    translations,
+    keyCount: countKeys(translations),
+    ...(skippedKeys.length > 0 ? { skippedKeys } : {})
+  };
+};
+
+// A key in one file and a namespace of the same name in another can't both be kept; the first file wins
+const mergeNodes = (target: TranslationNode, source: TranslationNode): TranslationNode => {
+  for (const [key, child] of Object.entries(source)) {
+    const existing = target[key];
+    if (existing && existing.kind !== child.kind) continue;
+    target[key] = child.kind === 'entry'
+      ? { kind: 'entry', values: { ...(existing?.kind === 'entry' ? existing.values : {}), ...child.values } }
+      : {
+          kind: 'namespace',
+          children: mergeNodes(existing?.kind === 'namespace' ? existing.children : {}, child.children)
+        };
+  }
+  return target;
+};
+
+// Every entry gets a (possibly empty) value for every language
+const fillLanguages = (node: TranslationNode, languages: string[]): TranslationNode =>
+  Object.fromEntries(
+    Object.entries(node).map(([key, child]) => [
+      key,
+      child.kind === 'entry'
+        ? { kind: 'entry', values: Object.fromEntries(languages.map(lang => [lang, child.values[lang] ?? ''])) }
+        : { kind: 'namespace', children: fillLanguages(child.children, languages) }
+    ])
+  );
+
+export const mergeLocaleFiles = (files: ParsedLocaleFile[], project: string): TranslationData => {
+  const languages = [...new Set(files.flatMap(f => f.languages))];
+  const translations = files.reduce<TranslationNode>(
+    (merged, file) => mergeNodes(merged, file.translations),
+    {}
+  );
+
+  // Notes usually live in the source-language file only, so the first one found wins
+  const metadata: NonNullable<TranslationData['metadata']> = {};
+  for (const file of files) {
+    for (const [keyPath, entry] of Object.entries(file.metadata ?? {})) {
+      const current = metadata[keyPath] ?? {};
+      metadata[keyPath] = {
+        ...entry,
+        ...current,
+        attributes: current.attributes || entry.attributes ? { ...entry.attributes, ...current.attributes } : undefined
+      };
+    }
+  }
+
+  return {
+    project,
+    languages,
+    translations: fillLanguages(translations, languages),
+    ...(Object.keys(metadata).length > 0 ? { metadata } : {})
+  };
+};
+
+// Full dashboard export, or a tree whose leaves are all keyed by language codes
+const isMultiLanguageJson = (content: string, fileName: string) => {
+  try {
+    const parsed = JSON.parse(content);
+    if (!isPlainObject(parsed)) return false;
+    if (isPlainObject(parsed.translations) && Array.isArray(parsed.languages)) return true;
+    return getTreeLanguages(parsed, fileName) !== null;
+  } catch {
+    return false;
+  }
+};
+
+export const jsonFormat: FormatAdapter = {
+  id: 'json',
+  label: 'i18next JSON',
+  extensions: ['.json'],
+  mimeType: 'application/json',
+  parse: parseJsonLocaleFile,
+  export: {
+    scope: 'language',
+    fileName: (_, language) => `${language}.json`,
+    serialize: (data, language, settings) => serializeI18next(data, language, settings.i18next)
+  }
+};
+
+export const jsonMultiFormat: FormatAdapter = {
+  id: 'json-multi',
+  // Editor backup in the internal shape; the bundle export is what runtimes load
+  label: 'Multi-language JSON (backup)',
+  extensions: ['.json'],
+  mimeType: 'application/json',
+  detect: isMultiLanguageJson,
+  parse: parseJsonLocaleFile,
+  export: {
+    scope: 'project',
+    fileName: () => 'translations-all.json',
+    serialize: (data, _, settings) =>
+      JSON.stringify(toPayload(data.translations), null, settings.i18next.indent > 0 ? settings.i18next.indent : undefined)
+  }
+};
@@ -0,0 +1,92 @@
+import type { KeyMetadata, TranslationNode, TranslationValue } from '@/types/translation';
+
+// A single uploaded file, already converted to the dashboard's tree
+export interface ParsedLocaleFile {
+  fileName: string;
+  // Id of the format adapter that read the file
+  format: string;
+  // Extra detail shown next to the format, e.g. "flat keys"
+  variant?: string;
+  languages: string[];
+  translations: TranslationNode;
+  keyCount: number;
+  project?: string;
+  metadata?: { [keyPath: string]: KeyMetadata };
+  // Entries left out because their key can't be used as a key path
+  skippedKeys?: string[];
+}
+
+const LANGUAGE_CODE = /^[a-z]{2,3}(?:[-_][a-z0-9]{2,8})*$/i;
+
+export const isLanguageCode = (value: string) => LANGUAGE_CODE.test(value);
+
+const languageNames = new Intl.DisplayNames(['en'], { type: 'language', fallback: 'none' });
+
+// Shaped like a code and naming a language the runtime knows, so "de" and "pt_BR"
+// pass while ordinary short keys such as "ok" or "add" don't
+export const isKnownLanguageCode = (value: string) => {
+  if (!isLanguageCode(value)) return false;
+  try {
+    return languageNames.of(value.split(/[-_]/)[0]) !== undefined;
+  } catch {
+    return false;
+  }
+};
+
+// Picks the language out of names like "de.json", "translations-de.json" or "fr-CA.json"
+export const detectLanguageFromFileName = (fileName: string): string | null => {
+  const base = fileName.replace(/\.[^.]+$/, '');
+  const tokens = base.split(/[._\s-]+/);
+  const last = tokens[tokens.length - 1];
+  // A trailing region or script subtag ("BR", "419", "Hant") belongs to the token before it
+  const hasSubtag = /^(?:[A-Z]{2}|\d{3}|[A-Z][a-z]{3})$/.test(last);
+  const candidates = [base, ...(hasSubtag ? [tokens.slice(-2).join('-')] : []), last];
+  const match = candidates.find(isLanguageCode);
+  return match ? match.replace(/_/g, '-') : null;
+};
+
+// Explicit choice first, then whatever the file says about itself, then the file name
+export const resolveLanguage = (fileName: string, languageOverride?: string, declared?: string | null) => {
+  const language = languageOverride || declared || detectLanguageFromFileName(fileName);
+  if (!language) {
+    throw new Error('Could not tell which language this file is for');
+  }
+  return language;
+};
+
+export const countKeys = (node: TranslationNode): number =>
+  Object.values(node).reduce<number>(
+    (sum, child) => sum + (child.kind === 'entry' ? 1 : countKeys(child.children)),
+    0
+  );
+
+// Dotted keys from flat formats become namespaces; "a" next to "a.b" can't be represented
+export const treeFromFlatValues = (entries: [string, TranslationValue][]): TranslationNode => {
+  const root: TranslationNode = {};
+
+  for (const [keyPath, values] of entries) {
+    const keys = keyPath.split('.');
+    let current: TranslationNode = root;
+    keys.forEach((key, index) => {
+      const existing = current[key];
+      if (index === keys.length - 1) {
+        if (existing?.kind === 'namespace') {
+          throw new Error(`"${keyPath}" is both a key and a namespace`);
+        }
+        current[key] = { kind: 'entry', values: { ...existing?.values, ...values } };
+        return;
+      }
+      if (existing?.kind === 'entry') {
+        throw new Error(`"${keys.slice(0, index + 1).join('.')}" is both a key and a namespace`);
+      }
+      const namespace = existing ?? { kind: 'namespace', children: {} };
+      current[key] = namespace;
+      current = namespace.children;
+    });
+  }
+
+  return root;
+};
+
+export const treeFromFlatKeys = (entries: [string, string][], language: string): TranslationNode =>
+  treeFromFlatValues(entries.map(([keyPath, value]) => [keyPath, { [language]: value }]));
@@ -0,0 +1,114 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import type { TranslationData } from '@/types/translation';
+import { fromPayload } from '@/lib/translationPayload';
+import { parseAndroidStrings, serializeAndroidStrings } from './android';
+import { parseIosStrings, parseStringsdict, serializeIosStrings, serializeStringsdict } from './ios';
+import { buildKeyLookup, findPlatformKeyCollisions, toPlatformKey } from './platformKeys';
+import { buildMobileBundle, planMobileImport } from './mobileBundle';
+
+const makeData = (payload: Record<string, unknown>): TranslationData => ({
+  project: 'App',
+  languages: ['en', 'de'],
+  translations: fromPayload(payload, ['en', 'de'])
+});
+
+const data = makeData({
+  auth: {
+    title: { en: 'Login', de: 'Anmelden' },
+    tricky: { en: "It's \"quoted\" & <b>bold</b>\nnext @line", de: '' }
+  },
+  cart: {
+    items_one: { en: '{{count}} item', de: '{{count}} Artikel' },
+    items_other: { en: '{{count}} items', de: '{{count}} Artikel' }
+  }
+});
+
+describe('toPlatformKey', () => {
+  it('joins segments and keeps names platform-safe', () => {
+    expect(toPlatformKey('auth.sign-in', '_', 'android')).toBe('auth_sign_in');
+    expect(toPlatformKey('404.title', '_', 'android')).toBe('_404_title');
+    expect(toPlatformKey('auth.title', '.', 'ios')).toBe('auth.title');
+  });
+});
+
+describe('platform name collisions', () => {
+  const colliding = makeData({
+    a: { b_c: { en: '1', de: '' }, 'b-c': { en: '2', de: '' } },
+    a_b: { c: { en: '3', de: '' } },
+    other: { key: { en: '4', de: '' } }
+  });
+
+  it('lists every key path that maps to the same name', () => {
+    expect(findPlatformKeyCollisions(colliding, '_', 'android')).toEqual([
+      { key: 'a_b_c', keyPaths: ['a.b_c', 'a.b-c', 'a_b.c'] }
+    ]);
+    expect(findPlatformKeyCollisions(data, '_', 'android')).toEqual([]);
+  });
+
+  it('depends on the separator', () => {
+    expect(findPlatformKeyCollisions(colliding, '.', 'ios')).toEqual([
+      { key: 'a.b_c', keyPaths: ['a.b_c', 'a.b-c'] }
+    ]);
+  });
+
+  it('blocks the export', async () => {
+    await expect(buildMobileBundle(colliding, { platform: 'android', separator: '_' })).rejects.toThrow(/a_b_c/);
+  });
+
+  it('maps shared names to no key on import', () => {
+    const lookup = buildKeyLookup(colliding, '_', 'android');
+    expect(lookup.get('a_b_c')).toBeNull();
+    expect(lookup.get('other_key')).toBe('other.key');
+
+    const plan = planMobileImport(
+      colliding,
+      { path: 'strings.xml', platform: 'android', language: 'de', strings: [{ key: 'a_b_c', value: 'x' }, { key: 'other_key', value: 'Vier' }] },
+      '_'
+    );
+    expect(plan.updates).toEqual([{ keyPath: 'other.key', language: 'de', value: 'Vier' }]);
+    expect(plan.unknownKeys).toEqual(['a_b_c']);
+  });
+});
+
+describe('Android strings.xml', () => {
+  it('round-trips escaped values and plurals', () => {
+    const strings = parseAndroidStrings(serializeAndroidStrings(data, 'en', '_'));
+
+    expect(strings).toEqual([
+      { key: 'auth_title', value: 'Login' },
+      { key: 'auth_tricky', value: "It's \"quoted\" & <b>bold</b>\nnext @line" },
+      { key: 'cart_items', plurals: { one: '%d item', other: '%d items' } }
+    ]);
+  });
+
+  it('maps names back to key paths on import', () => {
+    const strings = parseAndroidStrings(serializeAndroidStrings(data, 'de', '_'));
+    const plan = planMobileImport(data, { path: 'strings.xml', platform: 'android', language: 'de', strings }, '_');
+    expect(plan).toEqual({ updates: [], metadataUpdates: [], unknownKeys: [] });
+  });
+
+  it('rejects files that are not string resources', () => {
+    expect(() => parseAndroidStrings('<plist/>')).toThrow(/Android strings/);
+    expect(() => parseAndroidStrings('<resources')).toThrow(/valid XML/);
+  });
+});
+
+describe('iOS .strings and .stringsdict', () => {
+  it('round-trips escaped values', () => {
+    expect(parseIosStrings(serializeIosStrings(data, 'en', '.'))).toEqual([
+      { key: 'auth.title', value: 'Login' },
+      { key: 'auth.tricky', value: "It's \"quoted\" & <b>bold</b>\nnext @line" }
+    ]);
+  });
+
+  it('round-trips plurals', () => {
+    expect(parseStringsdict(serializeStringsdict(data, 'de', '.')!)).toEqual([
+      { key: 'cart.items', plurals: { one: '%d Artikel', other: '%d Artikel' } }
+    ]);
+  });
+
+  it('has no .stringsdict without plurals', () => {
+    expect(serializeStringsdict(makeData({ a: { b: { en: 'x', de: '' } } }), 'en', '.')).toBeNull();
+  });
+});
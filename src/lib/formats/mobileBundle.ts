@@ -0,0 +1,143 @@
+import JSZip from 'jszip';
+import type { TranslationData } from '@/types/translation';
+import { ImportPlan, ImportedEntry, planImport } from './importPlan';
+import { PluralCategory } from './plurals';
+import {
+  MobileExportOptions,
+  MobilePlatform,
+  MobileString,
+  buildKeyLookup,
+  findPlatformKeyCollisions,
+  fromPlatformPlural
+} from './platformKeys';
+import {
+  androidValuesDir,
+  languageFromAndroidDir,
+  parseAndroidStrings,
+  serializeAndroidStrings
+} from './android';
+import {
+  languageFromLproj,
+  parseIosStrings,
+  parseStringsdict,
+  serializeIosStrings,
+  serializeStringsdict
+} from './ios';
+import { detectLanguageFromFileName } from './localeFiles';
+import {
+  ALIASES_FILE_NAME,
+  AliasExportMode,
+  applyAliasExport,
+  hasActiveAliases,
+  serializeRedirectMap
+} from './aliases';
+
+// Lays the files out the way each platform's project expects them
+export const buildMobileBundle = async (
+  source: TranslationData,
+  options: MobileExportOptions,
+  aliases: AliasExportMode = 'none'
+): Promise<Blob> => {
+  const data = applyAliasExport(source, aliases);
+  const { platform, separator } = options;
+  const collisions = findPlatformKeyCollisions(data, separator, platform);
+  if (collisions.length > 0) {
+    const [{ key, keyPaths }] = collisions;
+    throw new Error(
+      `${collisions.length} ${platform} string name(s) are shared by several keys, e.g. "${key}" (${keyPaths.join(', ')})`
+    );
+  }
+  const sourceLanguage = data.languages[0];
+  const zip = new JSZip();
+
+  for (const language of data.languages) {
+    if (platform === 'android') {
+      zip.file(
+        `res/${androidValuesDir(language, sourceLanguage)}/strings.xml`,
+        serializeAndroidStrings(data, language, separator)
+      );
+      continue;
+    }
+
+    zip.file(`${language}.lproj/Localizable.strings`, serializeIosStrings(data, language, separator));
+    const stringsdict = serializeStringsdict(data, language, separator);
+    if (stringsdict) zip.file(`${language}.lproj/Localizable.stringsdict`, stringsdict);
+  }
+
+  if (aliases === 'redirects' && hasActiveAliases(data)) {
+    zip.file(ALIASES_FILE_NAME, serializeRedirectMap(data));
+  }
+
+  return zip.generateAsync({ type: 'blob' });
+};
+
+export interface MobileImportFile {
+  path: string;
+  platform: MobilePlatform;
+  language: string;
+  strings: MobileString[];
+}
+
+const parseMobileFile = (path: string, content: string, sourceLanguage: string): MobileImportFile | null => {
+  const parts = path.split('/');
+  const fileName = parts[parts.length - 1];
+  const dir = parts.length > 1 ? parts[parts.length - 2] : '';
+
+  if (fileName.endsWith('.xml')) {
+    const language = languageFromAndroidDir(dir, sourceLanguage) ?? detectLanguageFromFileName(fileName);
+    if (!language) throw new Error(`Can't tell the language of ${path}; put it in a values-xx folder`);
+    return { path, platform: 'android', language, strings: parseAndroidStrings(content) };
+  }
+
+  if (fileName.endsWith('.strings') || fileName.endsWith('.stringsdict')) {
+    const language = languageFromLproj(dir, sourceLanguage) ?? detectLanguageFromFileName(fileName);
+    if (!language) throw new Error(`Can't tell the language of ${path}; put it in an xx.lproj folder`);
+    const strings = fileName.endsWith('.strings') ? parseIosStrings(content) : parseStringsdict(content);
+    return { path, platform: 'ios', language, strings };
+  }
+
+  return null;
+};
+
+// Accepts an exported zip or a single strings.xml / .strings / .stringsdict file
+export const readMobileUpload = async (file: File, sourceLanguage: string): Promise<MobileImportFile[]> => {
+  if (!file.name.endsWith('.zip')) {
+    const parsed = parseMobileFile(file.name, await file.text(), sourceLanguage);
+    if (!parsed) throw new Error(`${file.name} is not an Android or iOS strings file`);
+    return [parsed];
+  }
+
+  const zip = await JSZip.loadAsync(await file.arrayBuffer());
+  const files: MobileImportFile[] = [];
+  for (const entry of Object.values(zip.files)) {
+    if (entry.dir || entry.name.startsWith('__MACOSX/')) continue;
+    const parsed = parseMobileFile(entry.name, await entry.async('string'), sourceLanguage);
+    if (parsed) files.push(parsed);
+  }
+  if (files.length === 0) throw new Error(`${file.name} contains no strings.xml or .strings files`);
+  return files;
+};
+
+// Maps platform names back to key paths using the project's current keys
+export const planMobileImport = (data: TranslationData, file: MobileImportFile, separator: string): ImportPlan => {
+  const lookup = buildKeyLookup(data, separator, file.platform);
+  // Names that match several keys are skipped rather than guessed
+  const ambiguous: string[] = [];
+
+  const entries: ImportedEntry[] = file.strings.flatMap(({ key, value, plurals }) => {
+    const match = lookup.get(key);
+    if (match === null) {
+      ambiguous.push(key);
+      return [];
+    }
+    const keyPath = match ?? key;
+    if (!plurals) return [{ keyPath, value }];
+    return (Object.entries(plurals) as [PluralCategory, string][]).map(([category, form]) => ({
+      keyPath: `${keyPath}_${category}`,
+      value: fromPlatformPlural(form)
+    }));
+  });
+
+  const plan = planImport(data, file.language, entries);
+  return { ...plan, unknownKeys: [...plan.unknownKeys, ...ambiguous] };
+};
@@ -0,0 +1,78 @@
+import type { TranslationData } from '@/types/translation';
+import { PluralCategory, groupPlurals } from './plurals';
+
+export type MobilePlatform = 'android' | 'ios';
+
+export interface MobileExportOptions {
+  platform: MobilePlatform;
+  // Joins key path segments: "app.title" -> "app_title"
+  separator: string;
+}
+
+export const DEFAULT_MOBILE_SEPARATORS: Record<MobilePlatform, string> = {
+  android: '_',
+  ios: '.'
+};
+
+// One string or plural read back from a platform file, keyed by its platform name
+export interface MobileString {
+  key: string;
+  value?: string;
+  plurals?: Partial<Record<PluralCategory, string>>;
+}
+
+// Segments keep only [A-Za-z0-9_]; Android names also can't start with a digit
+export const toPlatformKey = (keyPath: string, separator: string, platform: MobilePlatform) => {
+  const key = keyPath
+    .split('.')
+    .map(segment => segment.replace(/[^A-Za-z0-9_]/g, '_'))
+    .join(separator);
+  return platform === 'android' && /^[^A-Za-z_]/.test(key) ? `_${key}` : key;
+};
+
+// Several key paths reduced to the same platform name, e.g. "a.b_c" and "a_b.c"
+export interface PlatformKeyCollision {
+  key: string;
+  keyPaths: string[];
+}
+
+const groupByKey = (keyPaths: string[], toKey: (keyPath: string) => string) => {
+  const groups = new Map<string, string[]>();
+  keyPaths.forEach(keyPath => {
+    const key = toKey(keyPath);
+    groups.set(key, [...(groups.get(key) ?? []), keyPath]);
+  });
+  return groups;
+};
+
+const groupByPlatformKey = (data: TranslationData, separator: string, platform: MobilePlatform) =>
+  groupByKey(groupPlurals(data).map(({ keyPath }) => keyPath), keyPath => toPlatformKey(keyPath, separator, platform));
+
+// Key paths that `toKey` reduces to the same name
+export const findKeyCollisions = (keyPaths: string[], toKey: (keyPath: string) => string): PlatformKeyCollision[] =>
+  [...groupByKey(keyPaths, toKey)]
+    .filter(([, paths]) => paths.length > 1)
+    .map(([key, paths]) => ({ key, keyPaths: paths }));
+
+// A platform file can't hold two strings with one name, so these block the export
+export const findPlatformKeyCollisions = (
+  data: TranslationData,
+  separator: string,
+  platform: MobilePlatform
+): PlatformKeyCollision[] =>
+  findKeyCollisions(groupPlurals(data).map(({ keyPath }) => keyPath), keyPath => toPlatformKey(keyPath, separator, platform));
+
+// Platform key -> key path, covering plain keys and plural base names. A name
+// several key paths share maps to null rather than to one of them.
+export const buildKeyLookup = (data: TranslationData, separator: string, platform: MobilePlatform) =>
+  new Map<string, string | null>(
+    [...groupByPlatformKey(data, separator, platform)].map(([key, keyPaths]) => [
+      key,
+      keyPaths.length === 1 ? keyPaths[0] : null
+    ])
+  );
+
+// Plural strings take the count as their first argument on both platforms
+export const toPlatformPlural = (value: string) => value.replace(/\{\{\s*count\s*\}\}/g, '%d');
+
+export const fromPlatformPlural = (value: string) => value.replace(/%(?:1\$)?(?:lld|ld|li|d|i)/g, '{{count}}');
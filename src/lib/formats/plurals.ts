@@ -0,0 +1,44 @@
+import type { TranslationData } from '@/types/translation';
+import { listEntries } from '@/lib/translationOperations';
+
+export type PluralCategory = 'zero' | 'one' | 'two' | 'few' | 'many' | 'other';
+
+export const PLURAL_CATEGORIES: PluralCategory[] = ['zero', 'one', 'two', 'few', 'many', 'other'];
+
+// i18next-style plural keys: "items_one", "items_other"
+const PLURAL_SUFFIX = /_(zero|one|two|few|many|other)$/;
+
+export interface MessageGroup {
+  keyPath: string;
+  // Present for plural messages: category -> key path of that form
+  pluralKeys?: Partial<Record<PluralCategory, string>>;
+}
+
+// Walks the tree once and folds *_one/*_other siblings into plural messages
+export const groupPlurals = (data: TranslationData): MessageGroup[] => {
+  const keyPaths = listEntries(data.translations).map(e => e.keyPath);
+  const known = new Set(keyPaths);
+  const messages: MessageGroup[] = [];
+  const seenPlurals = new Set<string>();
+
+  for (const keyPath of keyPaths) {
+    const match = keyPath.match(PLURAL_SUFFIX);
+    const base = match ? keyPath.slice(0, -match[0].length) : null;
+    const isPlural = base !== null && known.has(`${base}_other`) && known.has(`${base}_one`);
+
+    if (!isPlural) {
+      messages.push({ keyPath });
+      continue;
+    }
+    if (seenPlurals.has(base)) continue;
+    seenPlurals.add(base);
+
+    const pluralKeys: Partial<Record<PluralCategory, string>> = {};
+    for (const category of PLURAL_CATEGORIES) {
+      if (known.has(`${base}_${category}`)) pluralKeys[category] = `${base}_${category}`;
+    }
+    messages.push({ keyPath: base, pluralKeys });
+  }
+
+  return messages;
+};
@@ -0,0 +1,107 @@
+import type { KeyMetadata, TranslationData } from '@/types/translation';
+import { listEntries } from '@/lib/translationOperations';
+import { ParsedLocaleFile, countKeys, resolveLanguage, treeFromFlatKeys } from './localeFiles';
+import type { FormatAdapter } from './registry';
+
+// .properties files are ISO-8859-1, so anything outside printable ASCII becomes \uXXXX
+const escapeUnicode = (value: string) =>
+  value.replace(/[^\x20-\x7e]/g, char => `\\u${char.charCodeAt(0).toString(16).padStart(4, '0')}`);
+
+const escapeText = (value: string) =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/\n/g, '\\n')
+    .replace(/\r/g, '\\r')
+    .replace(/\t/g, '\\t')
+    .replace(/\f/g, '\\f');
+
+const escapeKey = (key: string) => escapeUnicode(escapeText(key).replace(/([ =:#!])/g, '\\$1'));
+
+// Only leading whitespace in a value is significant to the parser
+const escapeValue = (value: string) => escapeUnicode(escapeText(value).replace(/^ /, '\\ '));
+
+export const serializeProperties = (data: TranslationData, language: string): string => {
+  const lines = listEntries(data.translations).flatMap(({ keyPath, values }) => {
+    const note = data.metadata?.[keyPath]?.note;
+    return [
+      ...(note ? note.split('\n').map(line => `# ${escapeUnicode(line)}`) : []),
+      `${escapeKey(keyPath)}=${escapeValue(values[language] || '')}`
+    ];
+  });
+  return lines.join('\n') + '\n';
+};
+
+const unescape = (value: string) =>
+  value.replace(/\\(u[0-9a-fA-F]{4}|.)/g, (_, escape: string) => {
+    if (escape.length === 5) return String.fromCharCode(parseInt(escape.slice(1), 16));
+    return ({ n: '\n', r: '\r', t: '\t', f: '\f' } as Record<string, string>)[escape] ?? escape;
+  });
+
+// Splits at the first unescaped "=", ":" or whitespace
+const splitKeyValue = (line: string): [string, string] => {
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '\\') {
+      i++;
+    } else if (char === '=' || char === ':' || /\s/.test(char)) {
+      const rest = line.slice(i).replace(/^\s*[=:]?\s*/, '');
+      return [line.slice(0, i), rest];
+    }
+  }
+  return [line, ''];
+};
+
+export const parsePropertiesFile = (fileName: string, content: string, languageOverride?: string): ParsedLocaleFile => {
+  const language = resolveLanguage(fileName, languageOverride);
+  const entries: [string, string][] = [];
+  const metadata: { [keyPath: string]: KeyMetadata } = {};
+  // Comment lines directly above a key become its note
+  let comments: string[] = [];
+
+  const rawLines = content.split(/\r?\n/);
+  for (let i = 0; i < rawLines.length; i++) {
+    let line = rawLines[i].replace(/^\s+/, '');
+    if (!line) {
+      comments = [];
+      continue;
+    }
+    if (line.startsWith('#') || line.startsWith('!')) {
+      comments.push(unescape(line.slice(1).trim()));
+      continue;
+    }
+
+    // An odd number of trailing backslashes continues the entry on the next line
+    while (/(?:^|[^\\])(?:\\\\)*\\$/.test(line) && i + 1 < rawLines.length) {
+      line = line.slice(0, -1) + rawLines[++i].replace(/^\s+/, '');
+    }
+
+    const [rawKey, rawValue] = splitKeyValue(line);
+    const keyPath = unescape(rawKey);
+    entries.push([keyPath, unescape(rawValue)]);
+    if (comments.length > 0) metadata[keyPath] = { note: comments.join('\n') };
+    comments = [];
+  }
+
+  const translations = treeFromFlatKeys(entries, language);
+  return {
+    fileName,
+    format: 'properties',
+    languages: [language],
+    translations,
+    keyCount: countKeys(translations),
+    ...(Object.keys(metadata).length > 0 ? { metadata } : {})
+  };
+};
+
+export const propertiesFormat: FormatAdapter = {
+  id: 'properties',
+  label: 'Java .properties',
+  extensions: ['.properties'],
+  mimeType: 'text/x-java-properties',
+  parse: parsePropertiesFile,
+  export: {
+    scope: 'language',
+    fileName: (_, language) => `messages_${language.replace(/-/g, '_')}.properties`,
+    serialize: serializeProperties
+  }
+};
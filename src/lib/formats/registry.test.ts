@@ -0,0 +1,113 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import type { TranslationData } from '@/types/translation';
+import { fromPayload } from '@/lib/translationPayload';
+import { listEntries } from '@/lib/translationOperations';
+import { ExportSettings, detectFormat, getFormat, parseLocaleFile } from './index';
+import { DEFAULT_I18NEXT_EXPORT_OPTIONS } from './i18next';
+
+const LANGUAGES = ['en', 'de'];
+
+// Values every text format has to escape somehow
+const data: TranslationData = {
+  project: 'Round trip',
+  languages: LANGUAGES,
+  translations: fromPayload(
+    {
+      auth: {
+        title: { en: 'Login', de: 'Anmelden' },
+        quote: { en: 'Say "hi" & <wave>', de: 'Sag „hallo“ & <wink>' },
+        multiline: { en: 'First line\nSecond line', de: 'Erste Zeile\nZweite Zeile' },
+        symbols: { en: 'a=b: c # d \\ e', de: '50% {{count}} x' }
+      },
+      common: {
+        emoji: { en: 'Done ✅', de: 'Fertig ✅' },
+        apostrophe: { en: "It's here", de: "Geht's" }
+      }
+    },
+    LANGUAGES
+  )
+};
+
+const settings: ExportSettings = { i18next: DEFAULT_I18NEXT_EXPORT_OPTIONS, aliases: 'none' };
+
+const valuesFor = (translations: TranslationData['translations'], language: string) =>
+  Object.fromEntries(listEntries(translations).map(({ keyPath, values }) => [keyPath, values[language]]));
+
+const exportAs = (formatId: string, language: string) => {
+  const exporter = getFormat(formatId)?.export;
+  if (!exporter) throw new Error(`${formatId} can't export`);
+  return {
+    fileName: exporter.fileName(data, language),
+    content: exporter.serialize(data, language, settings) as string
+  };
+};
+
+describe('language file round trips', () => {
+  it.each(['json', 'arb', 'yaml', 'properties', 'resx', 'po'])('%s keeps every value', formatId => {
+    const { fileName, content } = exportAs(formatId, 'de');
+    const parsed = parseLocaleFile(fileName, content);
+
+    expect(parsed.format).toBe(formatId);
+    expect(parsed.languages).toEqual(['de']);
+    expect(valuesFor(parsed.translations, 'de')).toEqual(valuesFor(data.translations, 'de'));
+  });
+
+  it('flat i18next JSON reads back as flat keys', () => {
+    const content = getFormat('json')!.export!.serialize(data, 'en', {
+      ...settings,
+      i18next: { ...DEFAULT_I18NEXT_EXPORT_OPTIONS, style: 'flat' }
+    }) as string;
+    const parsed = parseLocaleFile('en.json', content);
+
+    expect(JSON.parse(content)['auth.title']).toBe('Login');
+    expect(parsed.variant).toBe('flat keys');
+    expect(valuesFor(parsed.translations, 'en')).toEqual(valuesFor(data.translations, 'en'));
+  });
+});
+
+describe('ARB message names', () => {
+  it('blocks an export where several keys map to one name', () => {
+    const colliding: TranslationData = {
+      ...data,
+      translations: fromPayload(
+        { a: { 'b-c': { en: '1', de: '' }, b_c: { en: '2', de: '' } }, a_b: { c: { en: '3', de: '' } } },
+        LANGUAGES
+      )
+    };
+    expect(() => getFormat('arb')!.export!.serialize(colliding, 'en', settings))
+      .toThrow('1 ARB message name(s) are shared by several keys, e.g. "a_b_c" (a.b-c, a.b_c, a_b.c)');
+  });
+});
+
+describe('project file round trips', () => {
+  it.each(['json-multi', 'csv'])('%s keeps every language', formatId => {
+    const { fileName, content } = exportAs(formatId, 'en');
+    const parsed = parseLocaleFile(fileName, content);
+
+    expect(parsed.format).toBe(formatId);
+    expect(parsed.languages).toEqual(LANGUAGES);
+    LANGUAGES.forEach(language =>
+      expect(valuesFor(parsed.translations, language)).toEqual(valuesFor(data.translations, language))
+    );
+  });
+});
+
+describe('detectFormat', () => {
+  it('tells formats that share an extension apart by content', () => {
+    expect(detectFormat('app.json', '{"@@locale": "en", "title": "Hi"}')?.id).toBe('arb');
+    expect(detectFormat('en.json', '{"title": "Hi"}')?.id).toBe('json');
+    expect(detectFormat('Strings.xml', '<root><data name="a"><value>b</value></data></root>')?.id).toBe('resx');
+    expect(detectFormat('app.xlf', '<xliff version="1.2"></xliff>')?.id).toBe('xliff');
+  });
+
+  it('leaves .xml files to .resx and points Android strings.xml at the mobile import', () => {
+    const android = '<?xml version="1.0" encoding="utf-8"?>\n<resources><string name="title">Hi</string></resources>';
+    expect(detectFormat('strings.xml', android)?.id).toBe('resx');
+    expect(() => parseLocaleFile('strings.xml', android)).toThrow(/Android strings\.xml/);
+  });
+
+  it('returns null for unknown files', () => {
+    expect(detectFormat('notes.txt', 'hello')).toBeNull();
+  });
+});
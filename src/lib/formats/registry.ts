@@ -0,0 +1,70 @@
+import type { TranslationData } from '@/types/translation';
+import type { ParsedLocaleFile } from './localeFiles';
+import type { I18nextExportOptions } from './i18next';
+import type { AliasExportMode } from './aliases';
+
+// Choices the export menu collects once and hands to every adapter
+export interface ExportSettings {
+  i18next: I18nextExportOptions;
+  aliases: AliasExportMode;
+}
+
+export interface FormatExporter {
+  // "language" writes one file per language, "project" one file for everything
+  scope: 'language' | 'project';
+  fileName: (data: TranslationData, language: string) => string;
+  serialize: (data: TranslationData, language: string, settings: ExportSettings) => BlobPart;
+}
+
+export interface FormatAdapter {
+  id: string;
+  label: string;
+  // Lower-case and dotted, e.g. ['.yml', '.yaml']
+  extensions: string[];
+  mimeType: string;
+  // Tells this format apart from others that share an extension
+  detect?: (content: string, fileName: string) => boolean;
+  parse?: (fileName: string, content: string, languageOverride?: string) => ParsedLocaleFile;
+  export?: FormatExporter;
+}
+
+const adapters = new Map<string, FormatAdapter>();
+
+// Re-registering an id replaces the earlier adapter
+export const registerFormat = (adapter: FormatAdapter) => {
+  adapters.set(adapter.id, adapter);
+};
+
+export const getFormats = () => [...adapters.values()];
+
+export const getFormat = (id: string) => adapters.get(id);
+
+export const getImportAccept = () =>
+  [...new Set(getFormats().filter(a => a.parse).flatMap(a => a.extensions))].join(',');
+
+const extensionOf = (fileName: string) => {
+  const match = fileName.toLowerCase().match(/\.[^.]+$/);
+  return match ? match[0] : '';
+};
+
+// Adapters that can confirm the contents win; one without a detect hook is the fallback
+export const detectFormat = (fileName: string, content: string): FormatAdapter | null => {
+  const importable = getFormats().filter(a => a.parse);
+  const byExtension = importable.filter(a => a.extensions.includes(extensionOf(fileName)));
+  if (byExtension.length === 1) return byExtension[0];
+  const candidates = byExtension.length > 0 ? byExtension : importable.filter(a => a.detect);
+
+  return (
+    candidates.find(a => a.detect?.(content, fileName))
+    ?? (byExtension.length > 0 ? candidates.find(a => !a.detect) : undefined)
+    ?? null
+  );
+};
+
+export const parseLocaleFile = (fileName: string, content: string, languageOverride?: string): ParsedLocaleFile => {
+  const adapter = detectFormat(fileName, content);
+  if (!adapter?.parse) {
+    throw new Error('Unsupported file type');
+  }
+  return adapter.parse(fileName, content, languageOverride);
+};
@@ -0,0 +1,87 @@
+import type { KeyMetadata, TranslationData } from '@/types/translation';
+import { listEntries } from '@/lib/translationOperations';
+import { escapeXml } from './xliff';
+import { ParsedLocaleFile, countKeys, resolveLanguage, treeFromFlatKeys } from './localeFiles';
+import type { FormatAdapter } from './registry';
+
+const RESX_HEADERS = [
+  ['resmimetype', 'text/microsoft-resx'],
+  ['version', '2.0'],
+  ['reader', 'System.Resources.ResXResourceReader, System.Windows.Forms, Version=4.0.0.0, Culture=neutral, PublicKeyToken=b77a5c561934e089'],
+  ['writer', 'System.Resources.ResXResourceWriter, System.Windows.Forms, Version=4.0.0.0, Culture=neutral, PublicKeyToken=b77a5c561934e089']
+];
+
+export const serializeResx = (data: TranslationData, language: string): string => {
+  const entries = listEntries(data.translations).map(({ keyPath, values }) => {
+    const note = data.metadata?.[keyPath]?.note;
+    return [
+      `  <data name="${escapeXml(keyPath)}" xml:space="preserve">`,
+      `    <value>${escapeXml(values[language] || '')}</value>`,
+      ...(note ? [`    <comment>${escapeXml(note)}</comment>`] : []),
+      '  </data>'
+    ].join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<root>',
+    ...RESX_HEADERS.map(([name, value]) => `  <resheader name="${name}">\n    <value>${value}</value>\n  </resheader>`),
+    ...entries,
+    '</root>',
+    ''
+  ].join('\n');
+};
+
+export const parseResxFile = (fileName: string, content: string, languageOverride?: string): ParsedLocaleFile => {
+  const doc = new DOMParser().parseFromString(content, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('File is not valid XML');
+  }
+  // Android strings.xml shares the extension but is applied through the mobile import
+  if (doc.documentElement.localName === 'resources') {
+    throw new Error('This is an Android strings.xml file; apply it with "Apply Android / iOS strings"');
+  }
+  if (doc.documentElement.localName !== 'root') {
+    throw new Error('Not a .resx resource file');
+  }
+
+  const language = resolveLanguage(fileName, languageOverride);
+  const entries: [string, string][] = [];
+  const metadata: { [keyPath: string]: KeyMetadata } = {};
+
+  for (const element of Array.from(doc.documentElement.children)) {
+    const name = element.getAttribute('name');
+    // Typed entries (images, file references) aren't strings
+    if (element.localName !== 'data' || !name || element.hasAttribute('type') || element.hasAttribute('mimetype')) {
+      continue;
+    }
+    const value = element.getElementsByTagName('value')[0]?.textContent ?? '';
+    const comment = element.getElementsByTagName('comment')[0]?.textContent;
+    entries.push([name, value]);
+    if (comment) metadata[name] = { note: comment };
+  }
+
+  const translations = treeFromFlatKeys(entries, language);
+  return {
+    fileName,
+    format: 'resx',
+    languages: [language],
+    translations,
+    keyCount: countKeys(translations),
+    ...(Object.keys(metadata).length > 0 ? { metadata } : {})
+  };
+};
+
+export const resxFormat: FormatAdapter = {
+  id: 'resx',
+  label: '.NET .resx',
+  extensions: ['.resx', '.xml'],
+  mimeType: 'application/xml',
+  detect: content => /<root[\s>]/.test(content) && /<(resheader|data)\s/.test(content),
+  parse: parseResxFile,
+  export: {
+    scope: 'language',
+    fileName: (_, language) => `Strings.${language}.resx`,
+    serialize: serializeResx
+  }
+};
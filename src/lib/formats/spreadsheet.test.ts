@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import type { TranslationData } from '@/types/translation';
+import { fromPayload } from '@/lib/translationPayload';
+import { parseCsv, serializeCsv } from './spreadsheet';
+
+const values = ['=SUM(A1:A2)', '+49 30 1234', '-5 %', '@channel', "'=already quoted", "It's fine"];
+
+const data: TranslationData = {
+  project: 'App',
+  languages: ['en'],
+  translations: fromPayload(
+    { cells: Object.fromEntries(values.map((value, index) => [`value${index}`, { en: value }])) },
+    ['en']
+  )
+};
+
+describe('CSV formula cells', () => {
+  it('prefixes values a spreadsheet would run as formulas', () => {
+    const csv = serializeCsv(data);
+    expect(csv).toContain("cells.value0,'=SUM(A1:A2)\r\n");
+    expect(csv).toContain("cells.value3,'@channel\r\n");
+    expect(csv).toContain("cells.value4,''=already quoted\r\n");
+    expect(csv).toContain("cells.value5,It's fine\r\n");
+  });
+
+  it('restores the original values on re-import', () => {
+    const rows = parseCsv(serializeCsv(data));
+    expect(rows.slice(1).map(row => row[1])).toEqual(values);
+  });
+});
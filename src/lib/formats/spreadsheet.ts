@@ -0,0 +1,246 @@
+import * as XLSX from 'xlsx';
+import type { TranslationData, UnsavedChange } from '@/types/translation';
+import { getNodeAt, isEntry, listEntries } from '@/lib/translationOperations';
+import { ParsedLocaleFile, countKeys, isLanguageCode, treeFromFlatValues } from './localeFiles';
+import type { FormatAdapter } from './registry';
+
+// Same layout as the editor table: key column, then one column per language
+export const toSpreadsheetRows = (data: TranslationData): string[][] => [
+  ['key', ...data.languages],
+  ...listEntries(data.translations).map(({ keyPath, values }) => [
+    keyPath,
+    ...data.languages.map(lang => values[lang] || '')
+  ])
+];
+
+// Spreadsheet apps run cells starting with these as formulas, so such values get a
+// leading "'". Values that already start with "'" before one get another, which
+// keeps the prefix reversible on re-import.
+const FORMULA_PREFIX = /^'*[=+\-@\t\r]/;
+
+const neutralizeFormula = (value: string) => (FORMULA_PREFIX.test(value) ? `'${value}` : value);
+
+const restoreFormula = (value: string) => (value.startsWith("'") && FORMULA_PREFIX.test(value) ? value.slice(1) : value);
+
+const csvCell = (value: string) => {
+  const safe = neutralizeFormula(value);
+  return /[",\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+// Starts with a BOM so Excel opens the file as UTF-8
+export const serializeCsv = (data: TranslationData): string =>
+  '\ufeff' + toSpreadsheetRows(data).map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+
+export const serializeXlsx = (data: TranslationData): ArrayBuffer => {
+  const sheet = XLSX.utils.aoa_to_sheet(toSpreadsheetRows(data));
+  sheet['!cols'] = [{ wch: 40 }, ...data.languages.map(() => ({ wch: 50 }))];
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, sheet, 'Translations');
+  return XLSX.write(workbook, { type: 'array', bookType: 'xlsx' });
+};
+
+// Excel saves with ";" or tabs in some locales, so the delimiter is sniffed from the header
+const detectDelimiter = (firstLine: string) => {
+  const counts = [',', ';', '\t'].map(d => [d, firstLine.split(d).length] as const);
+  return counts.reduce((best, current) => (current[1] > best[1] ? current : best))[0];
+};
+
+export const parseCsv = (content: string): string[][] => {
+  const text = content.replace(/^\ufeff/, '');
+  const delimiter = detectDelimiter(text.split(/\r?\n/, 1)[0]);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(value => value.trim())).map(r => r.map(restoreFormula));
+};
+
+export const parseXlsx = (buffer: ArrayBuffer): string[][] => {
+  const workbook = XLSX.read(buffer, { type: 'array' });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) throw new Error('The workbook has no sheets');
+  const rows = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, defval: '', raw: false });
+  return rows.map(r => r.map(value => String(value ?? ''))).filter(r => r.some(value => value.trim()));
+};
+
+export const readSpreadsheetFile = async (file: File): Promise<string[][]> => {
+  const name = file.name.toLowerCase();
+  if (name.endsWith('.xlsx') || name.endsWith('.xls')) return parseXlsx(await file.arrayBuffer());
+  if (name.endsWith('.csv') || name.endsWith('.tsv') || name.endsWith('.txt')) return parseCsv(await file.text());
+  throw new Error(`${file.name} is not a CSV or Excel file`);
+};
+
+export type CellDiffStatus = 'changed' | 'conflict';
+
+export interface CellDiff {
+  keyPath: string;
+  language: string;
+  current: string;
+  incoming: string;
+  status: CellDiffStatus;
+  reason?: string;
+}
+
+export interface SpreadsheetDiff {
+  cells: CellDiff[];
+  // In the sheet but not in the project
+  unknownKeys: string[];
+  unknownLanguages: string[];
+  // In the project but not in the sheet
+  missingKeys: string[];
+  missingLanguages: string[];
+}
+
+// Compares a re-imported sheet against the project, including edits not saved yet
+export const diffSpreadsheet = (
+  data: TranslationData,
+  rows: string[][],
+  unsavedChanges: UnsavedChange[]
+): SpreadsheetDiff => {
+  const [header, ...body] = rows;
+  if (!header || header.length < 2) {
+    throw new Error('Expected a header row with a key column and at least one language');
+  }
+
+  const columns = header.slice(1).map(name => {
+    const trimmed = name.trim();
+    return data.languages.find(lang => lang.toLowerCase() === trimmed.toLowerCase()) ?? trimmed;
+  });
+  const languageColumns = columns.flatMap((lang, index) =>
+    data.languages.includes(lang) ? [[lang, index + 1] as const] : []
+  );
+
+  const diff: SpreadsheetDiff = {
+    cells: [],
+    unknownKeys: [],
+    unknownLanguages: columns.filter(lang => lang && !data.languages.includes(lang)),
+    missingKeys: [],
+    missingLanguages: data.languages.filter(lang => !columns.includes(lang))
+  };
+
+  const localEdits = new Map(unsavedChanges.map(c => [`${c.keyPath}\u0000${c.language}`, c]));
+  const cellsByKey = new Map<string, CellDiff>();
+  const seenKeys = new Set<string>();
+
+  for (const row of body) {
+    const keyPath = row[0]?.trim();
+    if (!keyPath) continue;
+
+    const node = getNodeAt(data.translations, keyPath);
+    if (!isEntry(node)) {
+      if (!diff.unknownKeys.includes(keyPath)) diff.unknownKeys.push(keyPath);
+      continue;
+    }
+    const isDuplicate = seenKeys.has(keyPath);
+    seenKeys.add(keyPath);
+
+    for (const [language, column] of languageColumns) {
+      const incoming = row[column] ?? '';
+      const current = node.values[language] || '';
+      const id = `${keyPath}\u0000${language}`;
+      const earlier = cellsByKey.get(id);
+
+      if (isDuplicate && earlier && earlier.incoming !== incoming && incoming) {
+        earlier.status = 'conflict';
+        earlier.reason = 'The key appears more than once with different values';
+        continue;
+      }
+      // An empty cell means "not translated yet", never "clear this value"
+      if (!incoming || incoming === current || earlier) continue;
+
+      const local = localEdits.get(id);
+      // The sheet still has the value from before a local edit; keep the edit
+      if (local && local.originalValue === incoming) continue;
+      const cell: CellDiff = local
+        ? { keyPath, language, current, incoming, status: 'conflict', reason: 'Edited here since the last save' }
+        : { keyPath, language, current, incoming, status: 'changed' };
+      cellsByKey.set(id, cell);
+      diff.cells.push(cell);
+    }
+  }
+
+  diff.missingKeys = listEntries(data.translations)
+    .map(e => e.keyPath)
+    .filter(keyPath => !seenKeys.has(keyPath));
+
+  return diff;
+};
+
+// A sheet exported from here (key column plus language columns) can seed a new project
+export const parseCsvFile = (fileName: string, content: string): ParsedLocaleFile => {
+  const [header, ...body] = parseCsv(content);
+  const languages = (header ?? []).slice(1).map(name => name.trim());
+  if (languages.length === 0 || !languages.every(isLanguageCode)) {
+    throw new Error('Expected a header row like "key,en,de"');
+  }
+
+  const translations = treeFromFlatValues(
+    body
+      .filter(row => row[0]?.trim())
+      .map(row => [row[0].trim(), Object.fromEntries(languages.map((lang, i) => [lang, row[i + 1] ?? '']))])
+  );
+  return {
+    fileName,
+    format: 'csv',
+    languages,
+    translations,
+    keyCount: countKeys(translations)
+  };
+};
+
+export const csvFormat: FormatAdapter = {
+  id: 'csv',
+  label: 'CSV spreadsheet',
+  extensions: ['.csv'],
+  mimeType: 'text/csv;charset=utf-8',
+  parse: parseCsvFile,
+  export: {
+    scope: 'project',
+    fileName: data => `${data.project || 'translations'}.csv`,
+    serialize: serializeCsv
+  }
+};
+
+export const xlsxFormat: FormatAdapter = {
+  id: 'xlsx',
+  label: 'Excel workbook',
+  extensions: ['.xlsx'],
+  mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  export: {
+    scope: 'project',
+    fileName: data => `${data.project || 'translations'}.xlsx`,
+    serialize: serializeXlsx
+  }
+};
@@ -0,0 +1,54 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import type { TranslationData } from '@/types/translation';
+import { fromPayload } from '@/lib/translationPayload';
+import { XliffVersion, parseXliff, planXliffImport, serializeXliff } from './xliff';
+
+const data: TranslationData = {
+  project: 'App',
+  languages: ['en', 'de'],
+  translations: fromPayload(
+    {
+      auth: {
+        title: { en: 'Login', de: 'Anmelden' },
+        hint: { en: 'Use <b>your</b> email & password', de: '' },
+        review: { en: 'Check', de: 'Prüfen' }
+      }
+    },
+    ['en', 'de']
+  ),
+  metadata: {
+    'auth.title': { note: 'Page heading', states: { de: 'final' } },
+    'auth.review': { states: { de: 'needs-review' } }
+  }
+};
+
+describe.each<XliffVersion>(['1.2', '2.0'])('XLIFF %s', version => {
+  const parsed = parseXliff(serializeXliff(data, { version, sourceLanguage: 'en', targetLanguage: 'de' }));
+
+  it('keeps languages, sources, targets and notes', () => {
+    expect(parsed).toMatchObject({ version, sourceLanguage: 'en', targetLanguage: 'de' });
+    expect(parsed.units.map(({ keyPath, source, target }) => ({ keyPath, source, target }))).toEqual([
+      { keyPath: 'auth.title', source: 'Login', target: 'Anmelden' },
+      { keyPath: 'auth.hint', source: 'Use <b>your</b> email & password', target: '' },
+      { keyPath: 'auth.review', source: 'Check', target: 'Prüfen' }
+    ]);
+    expect(parsed.units[0].note).toBe('Page heading');
+  });
+
+  it('keeps review states', () => {
+    expect(parsed.units.find(u => u.keyPath === 'auth.title')?.state).toBe('final');
+    expect(parsed.units.find(u => u.keyPath === 'auth.review')?.state).toBe('needs-review');
+  });
+
+  it('finds nothing to change when imported back unchanged', () => {
+    expect(planXliffImport(data, parsed)).toEqual({ updates: [], metadataUpdates: [], unknownKeys: [] });
+  });
+});
+
+describe('parseXliff', () => {
+  it('rejects files that are not XLIFF', () => {
+    expect(() => parseXliff('<resources/>')).toThrow();
+    expect(() => parseXliff('<xliff')).toThrow();
+  });
+});
@@ -0,0 +1,245 @@
+import type { TranslationData, TranslationState } from '@/types/translation';
+import { listEntries } from '@/lib/translationOperations';
+import { ImportPlan, planImport } from './importPlan';
+import { ParsedLocaleFile, countKeys, treeFromFlatValues } from './localeFiles';
+import type { FormatAdapter } from './registry';
+
+export type XliffVersion = '1.2' | '2.0';
+
+export interface XliffExportOptions {
+  version: XliffVersion;
+  sourceLanguage: string;
+  targetLanguage: string;
+}
+
+export interface XliffUnit {
+  keyPath: string;
+  source: string;
+  // Undefined when the unit has no <target> element at all
+  target?: string;
+  state?: TranslationState;
+  note?: string;
+}
+
+export interface ParsedXliff {
+  version: XliffVersion;
+  sourceLanguage: string;
+  targetLanguage: string;
+  units: XliffUnit[];
+}
+
+const STATES_1_2: Record<TranslationState, string> = {
+  new: 'new',
+  translated: 'translated',
+  'needs-review': 'needs-review-translation',
+  final: 'final'
+};
+
+const fromState12 = (state: string | null): TranslationState | undefined => {
+  if (!state) return undefined;
+  if (state === 'final' || state === 'signed-off') return 'final';
+  if (state === 'translated') return 'translated';
+  if (state.startsWith('needs-review')) return 'needs-review';
+  return 'new';
+};
+
+// XLIFF 2.0 has no "needs review" state; it travels as a custom subState
+const REVIEW_SUBSTATE = 'lms:needs-review';
+
+const STATES_2_0: Record<TranslationState, string> = {
+  new: 'initial',
+  translated: 'translated',
+  'needs-review': 'translated',
+  final: 'final'
+};
+
+const fromState20 = (state: string | null, subState: string | null): TranslationState | undefined => {
+  if (subState === REVIEW_SUBSTATE) return 'needs-review';
+  if (state === 'final') return 'final';
+  if (state === 'translated' || state === 'reviewed') return 'translated';
+  return state === 'initial' ? 'new' : undefined;
+};
+
+export const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+// XLIFF 2.0 unit ids must be NMTOKENs; the key path itself goes in `name`
+const NMTOKEN = /^[\w.:-]+$/;
+
+export const serializeXliff = (data: TranslationData, options: XliffExportOptions): string => {
+  const { version, sourceLanguage, targetLanguage } = options;
+  const entries = listEntries(data.translations);
+
+  const units = entries.map(({ keyPath, values }, index) => {
+    const source = values[sourceLanguage] || '';
+    const target = values[targetLanguage] || '';
+    const meta = data.metadata?.[keyPath];
+    const state: TranslationState = meta?.states?.[targetLanguage] ?? (target ? 'translated' : 'new');
+    const note = meta?.note;
+    const id = escapeXml(keyPath);
+
+    if (version === '1.2') {
+      const state12 = !target && state === 'new' ? 'needs-translation' : STATES_1_2[state];
+      return [
+        `      <trans-unit id="${id}" resname="${id}">`,
+        `        <source>${escapeXml(source)}</source>`,
+        `        <target state="${state12}">${escapeXml(target)}</target>`,
+        ...(note ? [`        <note>${escapeXml(note)}</note>`] : []),
+        '      </trans-unit>'
+      ].join('\n');
+    }
+
+    const unitId = NMTOKEN.test(keyPath) ? keyPath : `u${index + 1}`;
+    const subState = state === 'needs-review' ? ` subState="${REVIEW_SUBSTATE}"` : '';
+    return [
+      `    <unit id="${escapeXml(unitId)}" name="${id}">`,
+      ...(note ? ['      <notes>', `        <note>${escapeXml(note)}</note>`, '      </notes>'] : []),
+      `      <segment state="${STATES_2_0[state]}"${subState}>`,
+      `        <source>${escapeXml(source)}</source>`,
+      `        <target>${escapeXml(target)}</target>`,
+      '      </segment>',
+      '    </unit>'
+    ].join('\n');
+  });
+
+  const original = escapeXml(data.project || 'translations');
+
+  if (version === '1.2') {
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<xliff version="1.2" xmlns="urn:oasis:names:tc:xliff:document:1.2">',
+      `  <file original="${original}" source-language="${sourceLanguage}" target-language="${targetLanguage}" datatype="plaintext">`,
+      '    <body>',
+      ...units,
+      '    </body>',
+      '  </file>',
+      '</xliff>',
+      ''
+    ].join('\n');
+  }
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<xliff version="2.0" xmlns="urn:oasis:names:tc:xliff:document:2.0" srcLang="${sourceLanguage}" trgLang="${targetLanguage}">`,
+    `  <file id="f1" original="${original}">`,
+    ...units,
+    '  </file>',
+    '</xliff>',
+    ''
+  ].join('\n');
+};
+
+const childText = (parent: Element, localName: string) => {
+  const child = parent.getElementsByTagNameNS('*', localName)[0];
+  return child ? child.textContent ?? '' : undefined;
+};
+
+export const parseXliff = (content: string): ParsedXliff => {
+  const doc = new DOMParser().parseFromString(content, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('File is not valid XML');
+  }
+
+  const root = doc.documentElement;
+  if (root.localName !== 'xliff') {
+    throw new Error('Not an XLIFF document');
+  }
+
+  const version = root.getAttribute('version');
+  if (version === '1.2') {
+    const file = root.getElementsByTagNameNS('*', 'file')[0];
+    const units = Array.from(root.getElementsByTagNameNS('*', 'trans-unit')).map(unit => {
+      const target = unit.getElementsByTagNameNS('*', 'target')[0];
+      return {
+        keyPath: unit.getAttribute('resname') || unit.getAttribute('id') || '',
+        source: childText(unit, 'source') ?? '',
+        target: target ? target.textContent ?? '' : undefined,
+        state: fromState12(target?.getAttribute('state') ?? null),
+        note: childText(unit, 'note')
+      };
+    });
+    return {
+      version,
+      sourceLanguage: file?.getAttribute('source-language') ?? '',
+      targetLanguage: file?.getAttribute('target-language') ?? '',
+      units: units.filter(u => u.keyPath)
+    };
+  }
+
+  if (version === '2.0' || version === '2.1') {
+    const units = Array.from(root.getElementsByTagNameNS('*', 'unit')).map(unit => {
+      const segment = unit.getElementsByTagNameNS('*', 'segment')[0];
+      const target = segment?.getElementsByTagNameNS('*', 'target')[0];
+      return {
+        keyPath: unit.getAttribute('name') || unit.getAttribute('id') || '',
+        source: segment ? childText(segment, 'source') ?? '' : '',
+        target: target ? target.textContent ?? '' : undefined,
+        state: fromState20(segment?.getAttribute('state') ?? null, segment?.getAttribute('subState') ?? null),
+        note: childText(unit, 'note')
+      };
+    });
+    return {
+      version: '2.0',
+      sourceLanguage: root.getAttribute('srcLang') ?? '',
+      targetLanguage: root.getAttribute('trgLang') ?? '',
+      units: units.filter(u => u.keyPath)
+    };
+  }
+
+  throw new Error(`Unsupported XLIFF version ${version ?? '(missing)'}`);
+};
+
+export const planXliffImport = (data: TranslationData, xliff: ParsedXliff): ImportPlan =>
+  planImport(
+    data,
+    xliff.targetLanguage,
+    xliff.units.map(unit => ({ keyPath: unit.keyPath, value: unit.target, state: unit.state, note: unit.note }))
+  );
+
+// A returned XLIFF carries both sides of the pair, so it can seed a two-language project
+export const parseXliffFile = (fileName: string, content: string): ParsedLocaleFile => {
+  const { version, sourceLanguage, targetLanguage, units } = parseXliff(content);
+  if (!sourceLanguage || !targetLanguage) {
+    throw new Error('The XLIFF file does not declare its source and target languages');
+  }
+
+  const languages = [sourceLanguage, targetLanguage];
+  const translations = treeFromFlatValues(
+    units.map(unit => [unit.keyPath, { [sourceLanguage]: unit.source, [targetLanguage]: unit.target ?? '' }])
+  );
+  const metadata = Object.fromEntries(
+    units
+      .filter(unit => unit.note || unit.state)
+      .map(unit => [
+        unit.keyPath,
+        {
+          ...(unit.note ? { note: unit.note } : {}),
+          ...(unit.state ? { states: { [targetLanguage]: unit.state } } : {})
+        }
+      ])
+  );
+
+  return {
+    fileName,
+    format: 'xliff',
+    variant: `XLIFF ${version}`,
+    languages,
+    translations,
+    keyCount: countKeys(translations),
+    ...(Object.keys(metadata).length > 0 ? { metadata } : {})
+  };
+};
+
+export const xliffFormat: FormatAdapter = {
+  id: 'xliff',
+  label: 'XLIFF',
+  extensions: ['.xlf', '.xliff'],
+  mimeType: 'application/xliff+xml',
+  detect: content => /<xliff[\s>]/.test(content),
+  parse: parseXliffFile
+};
@@ -0,0 +1,54 @@
+import { parse, stringify } from 'yaml';
+import type { TranslationData } from '@/types/translation';
+import { extractLanguage, wrapLanguage } from './i18next';
+import { ParsedLocaleFile, countKeys, isLanguageCode, resolveLanguage } from './localeFiles';
+import type { FormatAdapter } from './registry';
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Rails locale files nest everything under the language: "de: { common: { ... } }"
+export const serializeYaml = (data: TranslationData, language: string): string =>
+  stringify({ [language]: extractLanguage(data.translations, language) }, { lineWidth: 0 });
+
+export const parseYamlFile = (fileName: string, content: string, languageOverride?: string): ParsedLocaleFile => {
+  let parsed: unknown;
+  try {
+    parsed = parse(content);
+  } catch (e) {
+    throw new Error(`File is not valid YAML${e instanceof Error ? `: ${e.message.split('\n')[0]}` : ''}`);
+  }
+  if (!isPlainObject(parsed)) {
+    throw new Error('Expected a YAML mapping at the top level');
+  }
+
+  const rootKeys = Object.keys(parsed);
+  const root = rootKeys.length === 1 && isLanguageCode(rootKeys[0]) && isPlainObject(parsed[rootKeys[0]])
+    ? rootKeys[0]
+    : null;
+  const language = resolveLanguage(fileName, languageOverride, root);
+  const skippedKeys: string[] = [];
+  const translations = wrapLanguage(root ? (parsed[root] as Record<string, unknown>) : parsed, language, skippedKeys);
+
+  return {
+    fileName,
+    format: 'yaml',
+    languages: [language],
+    translations,
+    keyCount: countKeys(translations),
+    ...(skippedKeys.length > 0 ? { skippedKeys } : {})
+  };
+};
+
+export const yamlFormat: FormatAdapter = {
+  id: 'yaml',
+  label: 'Rails YAML',
+  extensions: ['.yml', '.yaml'],
+  mimeType: 'application/yaml',
+  parse: parseYamlFile,
+  export: {
+    scope: 'language',
+    fileName: (_, language) => `${language}.yml`,
+    serialize: serializeYaml
+  }
+};
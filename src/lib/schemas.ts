@@ -0,0 +1,39 @@
+import { z } from 'zod';
+import type { KeyMetadata, TranslationPayloadNode } from '../types/translation';
+import { validatePayload } from './translationPayload';
+
+// Shape of a project as the API exchanges it: returned by GET /translations and
+// POST /projects, and sent as the POST /projects body. Shared with the server.
+export interface ProjectPayload {
+  project_name: string;
+  languages: string[];
+  data: TranslationPayloadNode;
+  metadata?: { [keyPath: string]: KeyMetadata };
+  aliases?: { [aliasPath: string]: string };
+}
+
+const keyMetadataSchema: z.ZodType<KeyMetadata> = z.object({
+  note: z.string().optional(),
+  states: z.record(z.enum(['new', 'translated', 'needs-review', 'final'])).optional(),
+  attributes: z.record(z.unknown()).optional()
+});
+
+// Structure is checked by validatePayload so ambiguous nodes are reported the
+// same way here as everywhere else
+export const projectPayloadSchema = z
+  .object({
+    project_name: z.string(),
+    languages: z.array(z.string().min(1)).min(1),
+    data: z.record(z.unknown()),
+    metadata: z.record(keyMetadataSchema).optional(),
+    aliases: z.record(z.string()).optional()
+  })
+  .superRefine((project, ctx) => {
+    for (const issue of validatePayload(project.data, project.languages)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['data', ...issue.path.split('.').filter(Boolean)],
+        message: issue.message
+      });
+    }
+  }) as z.ZodType<ProjectPayload>;
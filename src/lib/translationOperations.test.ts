@@ -0,0 +1,226 @@
+import { describe, expect, it } from 'vitest';
+import type { TranslationData, TranslationOperation } from '@/types/translation';
+import { fromPayload } from './translationPayload';
+import {
+  applyOperation,
+  applyOperations,
+  getKeyNameError,
+  getMoveKeyError,
+  getNewKeyPathError,
+  getNodeAt,
+  listEntries,
+  planMerge
+} from './translationOperations';
+
+const LANGUAGES = ['en', 'de'];
+
+const makeData = (overrides: Partial<TranslationData> = {}): TranslationData => ({
+  project: 'Test',
+  languages: LANGUAGES,
+  translations: fromPayload(
+    {
+      auth: {
+        title: { en: 'Login', de: 'Anmelden' },
+        subtitle: { en: 'Welcome back', de: '' }
+      },
+      common: {
+        save: { en: 'Save', de: 'Speichern' }
+      }
+    },
+    LANGUAGES
+  ),
+  ...overrides
+});
+
+const valuesAt = (data: TranslationData, keyPath: string) => {
+  const node = getNodeAt(data.translations, keyPath);
+  return node?.kind === 'entry' ? node.values : undefined;
+};
+
+type WithoutId<T> = T extends unknown ? Omit<T, 'id'> : never;
+
+let nextId = 0;
+const op = (operation: WithoutId<TranslationOperation>) =>
+  ({ ...operation, id: `op-${nextId++}` }) as TranslationOperation;
+
+describe('applyOperation', () => {
+  it('sets a value and leaves the input untouched', () => {
+    const data = makeData();
+    const next = applyOperation(data, op({
+      type: 'setValue', keyPath: 'auth.subtitle', language: 'de', originalValue: '', newValue: 'Willkommen'
+    }));
+
+    expect(valuesAt(next, 'auth.subtitle')).toEqual({ en: 'Welcome back', de: 'Willkommen' });
+    expect(valuesAt(data, 'auth.subtitle')).toEqual({ en: 'Welcome back', de: '' });
+  });
+
+  it('shares branches the operation does not touch', () => {
+    const data = makeData();
+    const next = applyOperation(data, op({
+      type: 'setValue', keyPath: 'auth.title', language: 'en', originalValue: 'Login', newValue: 'Sign in'
+    }));
+
+    expect(next.translations.common).toBe(data.translations.common);
+    expect(next.translations.auth).not.toBe(data.translations.auth);
+  });
+
+  it('returns the same object when a value does not change', () => {
+    const data = makeData();
+    const next = applyOperation(data, op({
+      type: 'setValue', keyPath: 'auth.title', language: 'en', originalValue: 'Login', newValue: 'Login'
+    }));
+    expect(next).toBe(data);
+  });
+
+  it('adds keys under namespaces that do not exist yet', () => {
+    const next = applyOperation(makeData(), op({
+      type: 'addKey', keyPath: 'settings.profile.name', values: { en: 'Name', de: '' }
+    }));
+    expect(valuesAt(next, 'settings.profile.name')).toEqual({ en: 'Name', de: '' });
+  });
+
+  it('deletes a namespace together with its metadata and the aliases pointing into it', () => {
+    const data = makeData({
+      metadata: { 'auth.title': { note: 'Heading' }, 'common.save': { note: 'Button' } },
+      aliases: { 'login.title': 'auth.title', 'old.save': 'common.save' }
+    });
+    const next = applyOperation(data, op({ type: 'deleteKey', keyPath: 'auth' }));
+
+    expect(getNodeAt(next.translations, 'auth')).toBeUndefined();
+    expect(next.metadata).toEqual({ 'common.save': { note: 'Button' } });
+    expect(next.aliases).toEqual({ 'old.save': 'common.save' });
+  });
+
+  it('moves metadata and retargets aliases along with a moved namespace', () => {
+    const data = makeData({
+      metadata: { 'auth.title': { note: 'Heading' } },
+      aliases: { 'login.title': 'auth.title' }
+    });
+    const next = applyOperation(data, op({ type: 'moveKey', fromPath: 'auth', toPath: 'account.auth' }));
+
+    expect(getNodeAt(next.translations, 'auth')).toBeUndefined();
+    expect(valuesAt(next, 'account.auth.title')).toEqual({ en: 'Login', de: 'Anmelden' });
+    expect(next.metadata).toEqual({ 'account.auth.title': { note: 'Heading' } });
+    expect(next.aliases).toEqual({ 'login.title': 'account.auth.title' });
+  });
+
+  it('records an alias for the old path when asked to', () => {
+    const next = applyOperation(makeData(), op({
+      type: 'moveKey', fromPath: 'common.save', toPath: 'actions.save', keepAlias: true
+    }));
+    expect(next.aliases).toEqual({ 'common.save': 'actions.save' });
+  });
+
+  it('drops an alias once a real key is created at or above its path', () => {
+    const data = makeData({ aliases: { 'old.save': 'common.save', 'legacy.title': 'auth.title' } });
+
+    const atPath = applyOperation(data, op({ type: 'addKey', keyPath: 'old.save', values: { en: '', de: '' } }));
+    expect(atPath.aliases).toEqual({ 'legacy.title': 'auth.title' });
+
+    const above = applyOperation(data, op({ type: 'addNamespace', keyPath: 'legacy' }));
+    expect(above.aliases).toEqual({ 'old.save': 'common.save' });
+  });
+
+  it('merges into an existing namespace, keeping target values where the source is empty', () => {
+    const data = applyOperation(makeData(), op({
+      type: 'addKey', keyPath: 'login.subtitle', values: { en: 'Hello again', de: 'Hallo' }
+    }));
+    const next = applyOperation(data, op({ type: 'moveKey', fromPath: 'auth', toPath: 'login', merge: true }));
+
+    expect(getNodeAt(next.translations, 'auth')).toBeUndefined();
+    expect(valuesAt(next, 'login.title')).toEqual({ en: 'Login', de: 'Anmelden' });
+    // "de" is empty on the moved side, so the existing translation survives
+    expect(valuesAt(next, 'login.subtitle')).toEqual({ en: 'Welcome back', de: 'Hallo' });
+  });
+
+  it('adds and removes languages on every entry', () => {
+    const added = applyOperation(makeData(), op({ type: 'addLanguage', language: 'fr' }));
+    expect(added.languages).toEqual(['en', 'de', 'fr']);
+    expect(valuesAt(added, 'common.save')).toEqual({ en: 'Save', de: 'Speichern', fr: '' });
+
+    const data = makeData({ metadata: { 'auth.title': { states: { de: 'final', en: 'translated' } } } });
+    const removed = applyOperation(data, op({ type: 'removeLanguage', language: 'de' }));
+    expect(removed.languages).toEqual(['en']);
+    expect(valuesAt(removed, 'auth.title')).toEqual({ en: 'Login' });
+    expect(removed.metadata).toEqual({ 'auth.title': { states: { en: 'translated' } } });
+  });
+});
+
+describe('applyOperations', () => {
+  it('replays a log in order, so later operations see earlier renames', () => {
+    const next = applyOperations(makeData(), [
+      op({ type: 'moveKey', fromPath: 'common.save', toPath: 'common.store' }),
+      op({ type: 'setValue', keyPath: 'common.store', language: 'de', originalValue: 'Speichern', newValue: 'Sichern' }),
+      op({ type: 'deleteKey', keyPath: 'auth.subtitle' })
+    ]);
+
+    expect(listEntries(next.translations).map(e => e.keyPath).sort()).toEqual(['auth.title', 'common.store']);
+    expect(valuesAt(next, 'common.store')).toEqual({ en: 'Save', de: 'Sichern' });
+  });
+
+  it('returns the input for an empty log', () => {
+    const data = makeData();
+    expect(applyOperations(data, [])).toBe(data);
+  });
+});
+
+describe('planMerge', () => {
+  it('lists keys that exist on both sides', () => {
+    const data = applyOperation(makeData(), op({
+      type: 'addKey', keyPath: 'login.title', values: { en: 'Sign in', de: '' }
+    }));
+    expect(planMerge(data.translations, 'auth', 'login')).toEqual({ overwritten: ['login.title'], blockedBy: null });
+  });
+
+  it('reports where a key meets a namespace', () => {
+    const data = applyOperation(makeData(), op({
+      type: 'addKey', keyPath: 'login.title.long', values: { en: '', de: '' }
+    }));
+    expect(planMerge(data.translations, 'auth', 'login').blockedBy).toBe('login.title');
+  });
+
+  it('has nothing to report when the target does not exist', () => {
+    expect(planMerge(makeData().translations, 'auth', 'nowhere')).toEqual({ overwritten: [], blockedBy: null });
+  });
+});
+
+describe('getMoveKeyError', () => {
+  const { translations } = makeData();
+
+  it('accepts a move to a free path', () => {
+    expect(getMoveKeyError(translations, 'auth.title', 'auth.heading')).toBeNull();
+  });
+
+  it('rejects unknown sources, no-op moves and moves into a descendant', () => {
+    expect(getMoveKeyError(translations, 'auth.missing', 'auth.other')).toMatch(/Unknown key/);
+    expect(getMoveKeyError(translations, 'auth', 'auth')).toMatch(/already there/);
+    expect(getMoveKeyError(translations, 'auth', 'auth.nested')).toMatch(/into itself/);
+  });
+
+  it('rejects a taken path unless merging into a node of the same kind', () => {
+    expect(getMoveKeyError(translations, 'auth.title', 'common.save')).toMatch(/already exists/);
+    expect(getMoveKeyError(translations, 'auth.title', 'common.save', true)).toBeNull();
+    expect(getMoveKeyError(translations, 'auth.title', 'common', true)).toMatch(/key on one side/);
+  });
+
+  it('rejects merging into a namespace that contains the source', () => {
+    expect(getMoveKeyError(translations, 'auth.title', 'auth', true)).toMatch(/contains it/);
+  });
+});
+
+describe('key name validation', () => {
+  it('rejects empty, dotted and padded names', () => {
+    expect(getKeyNameError('title')).toBeNull();
+    expect(getKeyNameError('  ')).toMatch(/empty/);
+    expect(getKeyNameError('a.b')).toMatch(/dots/);
+    expect(getKeyNameError(' title')).toMatch(/spaces/);
+  });
+
+  it('rejects new paths with empty segments or through a key', () => {
+    const { translations } = makeData();
+    expect(getNewKeyPathError(translations, 'auth..title')).toMatch(/empty/);
+    expect(getNewKeyPathError(translations, 'auth.title.long')).toMatch(/is a key/);
+    expect(getNewKeyPathError(translations, 'auth.title')).toMatch(/already exists/);
+    expect(getNewKeyPathError(translations, 'auth.heading')).toBeNull();
+  });
+});
@@ -0,0 +1,394 @@
+import type {
+  KeyMetadata,
+  TranslationData,
+  TranslationEntry,
+  TranslationNode,
+  TranslationOperation,
+  TranslationTreeNode,
+  TranslationValue,
+  UnsavedChange
+} from '../types/translation';
+
+export const isEntry = (node: TranslationTreeNode | undefined): node is TranslationEntry => node?.kind === 'entry';
+
+export const createOperationId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+export const splitPath = (keyPath: string) => {
+  const keys = keyPath.split('.');
+  return { parentKeys: keys.slice(0, -1), lastKey: keys[keys.length - 1] };
+};
+
+// Walks namespaces only; an entry in the way means there is no such parent
+const getParent = (root: TranslationNode, parentKeys: string[]): TranslationNode | undefined => {
+  let current: TranslationNode | undefined = root;
+  for (const key of parentKeys) {
+    const child: TranslationTreeNode | undefined = current?.[key];
+    current = child?.kind === 'namespace' ? child.children : undefined;
+  }
+  return current;
+};
+
+// Replaces the children of the namespace at `parentKeys`, copying only the
+// namespaces on the way there so every other branch keeps its identity.
+// Returns `root` itself when nothing changed or the path is blocked.
+const updateChildren = (
+  root: TranslationNode,
+  parentKeys: string[],
+  update: (children: TranslationNode) => TranslationNode,
+  create = false
+): TranslationNode => {
+  if (parentKeys.length === 0) return update(root);
+
+  const [key, ...rest] = parentKeys;
+  const child = root[key];
+  if (child?.kind === 'entry' || (!child && !create)) return root;
+
+  const children = child ? child.children : {};
+  const next = updateChildren(children, rest, update, create);
+  return next === children && child ? root : { ...root, [key]: { kind: 'namespace', children: next } };
+};
+
+const withoutKey = (children: TranslationNode, key: string) => {
+  if (!(key in children)) return children;
+  const rest = { ...children };
+  delete rest[key];
+  return rest;
+};
+
+// Why a key or namespace can't be created at `keyPath`, or null if it can
+export const getNewKeyPathError = (root: TranslationNode, keyPath: string): string | null => {
+  const keys = keyPath.split('.');
+  if (keys.some(key => !key.trim())) return 'Key names cannot be empty';
+  if (keys.some(key => key !== key.trim())) return 'Key names cannot start or end with spaces';
+
+  let current: TranslationNode = root;
+  for (const [index, key] of keys.entries()) {
+    const child = current[key];
+    if (!child) return null;
+    const path = keys.slice(0, index + 1).join('.');
+    if (index === keys.length - 1) return `"${path}" already exists`;
+    if (child.kind === 'entry') return `"${path}" is a key, not a namespace`;
+    current = child.children;
+  }
+  return null;
+};
+
+// Why `name` can't be used as a single key name, or null if it can
+export const getKeyNameError = (name: string): string | null => {
+  if (!name.trim()) return 'Key names cannot be empty';
+  if (name.includes('.')) return 'Key names cannot contain dots';
+  if (name !== name.trim()) return 'Key names cannot start or end with spaces';
+  return null;
+};
+
+export interface MergePlan {
+  // Keys that exist on both sides; their non-empty values are replaced
+  overwritten: string[];
+  // First path where one side has a key and the other a namespace
+  blockedBy: string | null;
+}
+
+// What merging the node at `fromPath` into the existing one at `toPath` would do
+export const planMerge = (root: TranslationNode, fromPath: string, toPath: string): MergePlan => {
+  const plan: MergePlan = { overwritten: [], blockedBy: null };
+  const visit = (source: TranslationTreeNode, target: TranslationTreeNode | undefined, path: string) => {
+    if (!target || plan.blockedBy) return;
+    if (source.kind !== target.kind) {
+      plan.blockedBy = path;
+    } else if (source.kind === 'entry') {
+      plan.overwritten.push(path);
+    } else if (target.kind === 'namespace') {
+      Object.entries(source.children).forEach(([key, child]) =>
+        visit(child, target.children[key], `${path}.${key}`)
+      );
+    }
+  };
+  const source = getNodeAt(root, fromPath);
+  if (source) visit(source, getNodeAt(root, toPath), toPath);
+  return plan;
+};
+
+// Why a key or namespace can't be moved to `toPath`, or null if it can.
+// With `merge`, an existing node of the same kind at `toPath` is merged into.
+export const getMoveKeyError = (
+  root: TranslationNode,
+  fromPath: string,
+  toPath: string,
+  merge = false
+): string | null => {
+  if (!getNodeAt(root, fromPath)) return `Unknown key "${fromPath}"`;
+  if (toPath === fromPath) return `"${fromPath}" is already there`;
+  if (toPath.startsWith(fromPath + '.')) return `Cannot move "${fromPath}" into itself`;
+  if (!merge || !getNodeAt(root, toPath)) return getNewKeyPathError(root, toPath);
+
+  if (fromPath.startsWith(toPath + '.')) return `Cannot merge "${fromPath}" into a namespace that contains it`;
+  const { blockedBy } = planMerge(root, fromPath, toPath);
+  return blockedBy ? `"${blockedBy}" is a key on one side and a namespace on the other` : null;
+};
+
+export const getNodeAt = (
+  root: TranslationNode,
+  keyPath: string
+): TranslationTreeNode | undefined => {
+  const { parentKeys, lastKey } = splitPath(keyPath);
+  return getParent(root, parentKeys)?.[lastKey];
+};
+
+// Every translation entry with its full key path, in tree order
+export const listEntries = (
+  node: TranslationNode,
+  prefix = ''
+): { keyPath: string; values: TranslationValue }[] =>
+  Object.entries(node).flatMap(([key, child]) => {
+    const keyPath = prefix ? `${prefix}.${key}` : key;
+    return child.kind === 'entry' ? [{ keyPath, values: child.values }] : listEntries(child.children, keyPath);
+  });
+
+const mapEntries = (
+  node: TranslationNode,
+  update: (value: TranslationValue) => TranslationValue
+): TranslationNode =>
+  Object.fromEntries(
+    Object.entries(node).map(([key, child]) => [
+      key,
+      child.kind === 'entry'
+        ? { kind: 'entry', values: update(child.values) }
+        : { kind: 'namespace', children: mapEntries(child.children, update) }
+    ])
+  );
+
+// Source values win, except empty ones, which keep what the target had
+const mergeNodes = (target: TranslationTreeNode, source: TranslationTreeNode): TranslationTreeNode => {
+  if (source.kind === 'entry' && target.kind === 'entry') {
+    const filled = Object.entries(source.values).filter(([, value]) => value.trim());
+    return { kind: 'entry', values: { ...target.values, ...Object.fromEntries(filled) } };
+  }
+  if (source.kind === 'namespace' && target.kind === 'namespace') {
+    const children = { ...target.children };
+    Object.entries(source.children).forEach(([key, child]) => {
+      children[key] = children[key] ? mergeNodes(children[key], child) : child;
+    });
+    return { kind: 'namespace', children };
+  }
+  return source;
+};
+
+const isWithin = (keyPath: string, ancestor: string) =>
+  keyPath === ancestor || keyPath.startsWith(ancestor + '.');
+
+// Rewrites metadata keys; returning null from `remap` drops the entry
+const remapMetadata = (
+  metadata: TranslationData['metadata'],
+  remap: (keyPath: string, entry: KeyMetadata) => [string, KeyMetadata] | null
+) => {
+  if (!metadata) return metadata;
+  return Object.fromEntries(
+    Object.entries(metadata).flatMap(([keyPath, entry]) => {
+      const next = remap(keyPath, entry);
+      return next ? [next] : [];
+    })
+  );
+};
+
+// Rewrites alias targets; returning null from `remap` drops the alias
+const remapAliases = (
+  aliases: TranslationData['aliases'],
+  remap: (aliasPath: string, target: string) => [string, string] | null
+) => {
+  if (!aliases) return aliases;
+  return Object.fromEntries(
+    Object.entries(aliases).flatMap(([aliasPath, target]) => {
+      const next = remap(aliasPath, target);
+      return next ? [next] : [];
+    })
+  );
+};
+
+// A real key or namespace at or above an alias path shadows the alias, so it is dropped
+const withoutShadowedAliases = (aliases: TranslationData['aliases'], keyPath: string) =>
+  remapAliases(aliases, (aliasPath, target) =>
+    isWithin(aliasPath, keyPath) || isWithin(keyPath, aliasPath) ? null : [aliasPath, target]
+  );
+
+// Returns a new TranslationData with the operation applied; `data` is left untouched
+// and every branch the operation doesn't touch is shared with it
+export const applyOperation = (data: TranslationData, op: TranslationOperation): TranslationData => {
+  switch (op.type) {
+    case 'addLanguage':
+      if (data.languages.includes(op.language)) return data;
+      return {
+        ...data,
+        languages: [...data.languages, op.language],
+        translations: mapEntries(data.translations, value => ({ ...value, [op.language]: '' }))
+      };
+    case 'removeLanguage':
+      if (!data.languages.includes(op.language)) return data;
+      return {
+        ...data,
+        languages: data.languages.filter(l => l !== op.language),
+        translations: mapEntries(data.translations, value => {
+          const rest = { ...value };
+          delete rest[op.language];
+          return rest;
+        }),
+        metadata: remapMetadata(data.metadata, (keyPath, entry) => {
+          if (!entry.states?.[op.language]) return [keyPath, entry];
+          const states = { ...entry.states };
+          delete states[op.language];
+          return [keyPath, { ...entry, states }];
+        })
+      };
+    case 'setMetadata': {
+      const metadata = { ...data.metadata };
+      if (op.metadata) {
+        metadata[op.keyPath] = op.metadata;
+      } else {
+        delete metadata[op.keyPath];
+      }
+      return { ...data, metadata };
+    }
+    case 'setValue': {
+      const { parentKeys, lastKey } = splitPath(op.keyPath);
+      const translations = updateChildren(data.translations, parentKeys, children => {
+        const entry = children[lastKey];
+        if (!isEntry(entry) || entry.values[op.language] === op.newValue) return children;
+        return { ...children, [lastKey]: { kind: 'entry', values: { ...entry.values, [op.language]: op.newValue } } };
+      });
+      return translations === data.translations ? data : { ...data, translations };
+    }
+    case 'addKey': {
+      const { parentKeys, lastKey } = splitPath(op.keyPath);
+      const translations = updateChildren(
+        data.translations,
+        parentKeys,
+        children => ({ ...children, [lastKey]: { kind: 'entry', values: { ...op.values } } }),
+        true
+      );
+      if (translations === data.translations) return data;
+      return { ...data, translations, aliases: withoutShadowedAliases(data.aliases, op.keyPath) };
+    }
+    case 'addNamespace': {
+      const { parentKeys, lastKey } = splitPath(op.keyPath);
+      const translations = updateChildren(
+        data.translations,
+        parentKeys,
+        children => (lastKey in children ? children : { ...children, [lastKey]: { kind: 'namespace', children: {} } }),
+        true
+      );
+      if (translations === data.translations) return data;
+      return { ...data, translations, aliases: withoutShadowedAliases(data.aliases, op.keyPath) };
+    }
+    case 'deleteKey': {
+      const { parentKeys, lastKey } = splitPath(op.keyPath);
+      const translations = updateChildren(data.translations, parentKeys, children => withoutKey(children, lastKey));
+      if (translations === data.translations) return data;
+      return {
+        ...data,
+        translations,
+        metadata: remapMetadata(data.metadata, (keyPath, entry) =>
+          isWithin(keyPath, op.keyPath) ? null : [keyPath, entry]
+        ),
+        // Aliases of a deleted key have nothing left to point to
+        aliases: remapAliases(data.aliases, (aliasPath, target) =>
+          isWithin(target, op.keyPath) ? null : [aliasPath, target]
+        )
+      };
+    }
+    case 'removeAlias': {
+      if (!data.aliases || !(op.aliasPath in data.aliases)) return data;
+      const aliases = { ...data.aliases };
+      delete aliases[op.aliasPath];
+      return { ...data, aliases };
+    }
+    case 'moveKey': {
+      const node = getNodeAt(data.translations, op.fromPath);
+      if (!node) return data;
+      const from = splitPath(op.fromPath);
+      const to = splitPath(op.toPath);
+      const removed = updateChildren(data.translations, from.parentKeys, children => withoutKey(children, from.lastKey));
+      const translations = updateChildren(
+        removed,
+        to.parentKeys,
+        children => {
+          const existing = children[to.lastKey];
+          return { ...children, [to.lastKey]: op.merge && existing ? mergeNodes(existing, node) : node };
+        },
+        true
+      );
+      // A target blocked by an entry leaves everything where it was
+      if (translations === removed) return data;
+      // Moved metadata replaces what a merged-into key had
+      const kept = remapMetadata(data.metadata, (keyPath, entry) =>
+        isWithin(keyPath, op.fromPath) ? null : [keyPath, entry]
+      );
+      const moved = remapMetadata(data.metadata, (keyPath, entry) =>
+        isWithin(keyPath, op.fromPath) ? [op.toPath + keyPath.slice(op.fromPath.length), entry] : null
+      );
+      // Existing aliases follow the key, and the new location can't stay an alias
+      const aliases = remapAliases(withoutShadowedAliases(data.aliases, op.toPath), (aliasPath, target) => [
+        aliasPath,
+        isWithin(target, op.fromPath) ? op.toPath + target.slice(op.fromPath.length) : target
+      ]);
+      return {
+        ...data,
+        translations,
+        metadata: data.metadata && { ...kept, ...moved },
+        aliases: op.keepAlias ? { ...aliases, [op.fromPath]: op.toPath } : aliases
+      };
+    }
+  }
+};
+
+export const applyOperations = (data: TranslationData, ops: TranslationOperation[]) =>
+  ops.reduce(applyOperation, data);
+
+// Follows a key path through the moves that were recorded after a given operation
+export const resolvePath = (keyPath: string, laterOps: TranslationOperation[]) =>
+  laterOps.reduce((path, op) => {
+    if (op.type !== 'moveKey') return path;
+    if (path === op.fromPath) return op.toPath;
+    if (path.startsWith(op.fromPath + '.')) return op.toPath + path.slice(op.fromPath.length);
+    return path;
+  }, keyPath);
+
+// Value edits, with key paths as they appear in the current data
+export const getValueChanges = (ops: TranslationOperation[]): UnsavedChange[] =>
+  ops.flatMap((op, index) =>
+    op.type === 'setValue'
+      ? [{
+          keyPath: resolvePath(op.keyPath, ops.slice(index + 1)),
+          language: op.language,
+          originalValue: op.originalValue,
+          newValue: op.newValue
+        }]
+      : []
+  );
+
+export const describeOperation = (op: TranslationOperation): string => {
+  switch (op.type) {
+    case 'setValue':
+      return `Edit ${op.keyPath} (${op.language.toUpperCase()})`;
+    case 'addKey':
+      return `Add key ${op.keyPath}`;
+    case 'addNamespace':
+      return `Add namespace ${op.keyPath}`;
+    case 'deleteKey':
+      return `Delete ${op.keyPath}`;
+    case 'setMetadata':
+      return `Update notes and status of ${op.keyPath}`;
+    case 'removeAlias':
+      return `Retire alias ${op.aliasPath}`;
+    case 'moveKey':
+      if (op.merge) return `Merge ${op.fromPath} into ${op.toPath}`;
+      return splitPath(op.fromPath).parentKeys.join('.') === splitPath(op.toPath).parentKeys.join('.')
+        ? `Rename ${op.fromPath} to ${splitPath(op.toPath).lastKey}`
+        : `Move ${op.fromPath} to ${op.toPath}`;
+    case 'addLanguage':
+      return `Add language ${op.language.toUpperCase()}`;
+    case 'removeLanguage':
+      return `Remove language ${op.language.toUpperCase()}`;
+  }
+};
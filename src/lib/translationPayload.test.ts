@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { InvalidTranslationDataError, fromPayload, toPayload, validatePayload } from './translationPayload';
+
+const LANGUAGES = ['en', 'de'];
+
+describe('fromPayload / toPayload', () => {
+  it('round-trips nested namespaces and entries', () => {
+    const payload = {
+      auth: {
+        title: { en: 'Login', de: 'Anmelden' },
+        errors: { required: { en: 'Required', de: '' } }
+      }
+    };
+    const tree = fromPayload(payload, LANGUAGES);
+
+    expect(tree.auth.kind).toBe('namespace');
+    expect(toPayload(tree)).toEqual(payload);
+  });
+
+  it('keeps an empty namespace as a namespace', () => {
+    const tree = fromPayload({ drafts: {} }, LANGUAGES);
+    expect(tree.drafts).toEqual({ kind: 'namespace', children: {} });
+    expect(toPayload(tree)).toEqual({ drafts: {} });
+  });
+
+  it('throws every issue it finds instead of guessing', () => {
+    let error: unknown;
+    try {
+      fromPayload({ title: 'Login', auth: { title: { en: 'Login', fr: 'Connexion' } } }, LANGUAGES);
+    } catch (e) {
+      error = e;
+    }
+    expect(error).toBeInstanceOf(InvalidTranslationDataError);
+    expect((error as InvalidTranslationDataError).issues).toHaveLength(2);
+  });
+});
+
+describe('validatePayload', () => {
+  it('accepts a well-formed payload', () => {
+    expect(validatePayload({ auth: { title: { en: 'Login' } } }, LANGUAGES)).toEqual([]);
+  });
+
+  it('reports nodes that mix values with nested keys', () => {
+    expect(validatePayload({ auth: { en: 'Login', title: { en: 'Login' } } }, LANGUAGES)).toEqual([
+      { path: 'auth', message: expect.stringMatching(/mixes translated values/) }
+    ]);
+  });
+
+  it('reports unsupported values by path', () => {
+    expect(validatePayload({ auth: { title: { en: 42 } } }, LANGUAGES)).toEqual([
+      { path: 'auth.title.en', message: expect.stringMatching(/unsupported value/) }
+    ]);
+  });
+
+  it('reports key names that cannot be used as keys', () => {
+    expect(validatePayload({ auth: { 'e.g.': { en: 'e.g.' }, ' ': { en: 'Blank' } } }, LANGUAGES)).toEqual([
+      { path: 'auth.e.g.', message: expect.stringMatching(/cannot contain dots/) },
+      { path: 'auth. ', message: expect.stringMatching(/cannot be empty/) }
+    ]);
+  });
+
+  it('rejects a root that is not an object', () => {
+    expect(validatePayload([], LANGUAGES)).toEqual([{ path: '', message: 'Translations must be an object' }]);
+  });
+});
@@ -0,0 +1,102 @@
+import type {
+  TranslationNode,
+  TranslationPayloadNode,
+  TranslationTreeNode,
+  TranslationValue
+} from '../types/translation';
+import { getKeyNameError } from './translationOperations';
+
+export interface TranslationDataIssue {
+  // Dotted key path of the offending node; empty for the root
+  path: string;
+  message: string;
+}
+
+// Thrown when a payload can't be read without guessing what a node is
+export class InvalidTranslationDataError extends Error {
+  constructor(public issues: TranslationDataIssue[]) {
+    super(
+      issues.length === 1
+        ? `Invalid translation data: ${issues[0].message}`
+        : `Invalid translation data: ${issues[0].message} (and ${issues.length - 1} more)`
+    );
+    this.name = 'InvalidTranslationDataError';
+  }
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// An object of strings is an entry and an object of objects a namespace; anything
+// in between is reported rather than guessed at. Returns every problem found.
+export const validatePayload = (payload: unknown, languages: string[]): TranslationDataIssue[] => {
+  const issues: TranslationDataIssue[] = [];
+
+  const visit = (node: unknown, path: string) => {
+    if (!isPlainObject(node)) {
+      issues.push({ path, message: path ? `"${path}" must be an object` : 'Translations must be an object' });
+      return;
+    }
+
+    const children = Object.entries(node);
+    const strings = children.filter(([, value]) => typeof value === 'string');
+    const objects = children.filter(([, value]) => isPlainObject(value));
+    for (const [key, value] of children) {
+      if (typeof value !== 'string' && !isPlainObject(value)) {
+        const childPath = path ? `${path}.${key}` : key;
+        issues.push({ path: childPath, message: `"${childPath}" has an unsupported value (${JSON.stringify(value)})` });
+      }
+    }
+
+    const stringKeys = strings.map(([key]) => key);
+    if (strings.length > 0 && !path) {
+      issues.push({ path, message: `Top-level keys must hold objects, not strings (${stringKeys.join(', ')})` });
+    } else if (strings.length > 0 && objects.length > 0) {
+      issues.push({ path, message: `"${path}" mixes translated values (${stringKeys.join(', ')}) with nested keys` });
+    } else if (strings.length > 0) {
+      const unknown = stringKeys.filter(key => !languages.includes(key));
+      if (unknown.length > 0) {
+        issues.push({ path, message: `"${path}" has values for unknown language(s) ${unknown.join(', ')}` });
+      }
+      return;
+    }
+    objects.forEach(([key, value]) => {
+      const childPath = path ? `${path}.${key}` : key;
+      const nameError = getKeyNameError(key);
+      if (nameError) {
+        issues.push({ path: childPath, message: `"${childPath}" is not a usable key name (${nameError})` });
+        return;
+      }
+      visit(value, childPath);
+    });
+  };
+
+  visit(payload, '');
+  return issues;
+};
+
+const toTreeNode = (node: TranslationPayloadNode | TranslationValue): TranslationTreeNode => {
+  const children = Object.entries(node);
+  if (children.length > 0 && children.every(([, value]) => typeof value === 'string')) {
+    return { kind: 'entry', values: { ...(node as TranslationValue) } };
+  }
+  return { kind: 'namespace', children: fromPayloadNode(node as TranslationPayloadNode) };
+};
+
+const fromPayloadNode = (node: TranslationPayloadNode): TranslationNode =>
+  Object.fromEntries(Object.entries(node).map(([key, value]) => [key, toTreeNode(value)]));
+
+// Migrates the API/storage shape to the explicit tree, rejecting ambiguous input
+export const fromPayload = (payload: unknown, languages: string[]): TranslationNode => {
+  const issues = validatePayload(payload, languages);
+  if (issues.length > 0) throw new InvalidTranslationDataError(issues);
+  return fromPayloadNode(payload as TranslationPayloadNode);
+};
+
+export const toPayload = (node: TranslationNode): TranslationPayloadNode =>
+  Object.fromEntries(
+    Object.entries(node).map(([key, child]) => [
+      key,
+      child.kind === 'entry' ? { ...child.values } : toPayload(child.children)
+    ])
+  );
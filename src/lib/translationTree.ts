@@ -0,0 +1,189 @@
+import type { TranslationNode, TranslationTreeNode, TranslationValue, TreeNode } from '../types/translation';
+
+interface CachedView<T> {
+  path: string;
+  depth: number;
+  languages: string;
+  view: T;
+}
+
+export interface TreeBuildOptions {
+  // Give up and return null once more entries than this would need building
+  maxRebuilt?: number;
+  // Called with the running count whenever an entry view is built
+  onEntryBuilt?: (built: number) => void;
+}
+
+class RebuildLimitReached extends Error {}
+
+const lookup = <K extends object, T>(
+  cache: WeakMap<K, CachedView<T>>,
+  key: K,
+  path: string,
+  depth: number,
+  languages: string,
+  build: () => T
+): T => {
+  const cached = cache.get(key);
+  if (cached && cached.path === path && cached.depth === depth && cached.languages === languages) {
+    return cached.view;
+  }
+  const view = build();
+  cache.set(key, { path, depth, languages, view });
+  return view;
+};
+
+const toLanguagesKey = (languages: string[]) => languages.join('\u0000');
+
+// Edits copy only the branch they touch, so every other subtree keeps its identity
+// and its view nodes are handed back as-is instead of being rebuilt
+export const createTreeBuilder = () => {
+  const nodeViews = new WeakMap<TranslationTreeNode, CachedView<TreeNode>>();
+  const childViews = new WeakMap<TranslationNode, CachedView<TreeNode[]>>();
+
+  const build = (node: TranslationNode, languages: string[], options: TreeBuildOptions = {}): TreeNode[] | null => {
+    const { maxRebuilt = Infinity, onEntryBuilt } = options;
+    const languagesKey = toLanguagesKey(languages);
+    let built = 0;
+
+    const buildNode = (key: string, child: TranslationTreeNode, path: string, depth: number): TreeNode =>
+      lookup(nodeViews, child, path, depth, languagesKey, () => {
+        if (child.kind === 'entry') {
+          if (++built > maxRebuilt) throw new RebuildLimitReached();
+          onEntryBuilt?.(built);
+          const filledCount = languages.filter(lang => child.values[lang]?.trim()).length;
+          return {
+            key,
+            path,
+            depth,
+            isLeaf: true,
+            values: child.values,
+            completeness: (filledCount / languages.length) * 100
+          };
+        }
+
+        const children = buildChildren(child.children, path, depth + 1);
+        const totalCompleteness = children.reduce((sum, item) => sum + (item.completeness || 0), 0);
+        return {
+          key,
+          path,
+          depth,
+          isLeaf: false,
+          children,
+          completeness: children.length > 0 ? totalCompleteness / children.length : 100
+        };
+      });
+
+    const buildChildren = (node: TranslationNode, path: string, depth: number): TreeNode[] =>
+      lookup(childViews, node, path, depth, languagesKey, () =>
+        Object.entries(node).map(([key, child]) => buildNode(key, child, path ? `${path}.${key}` : key, depth))
+      );
+
+    try {
+      return buildChildren(node, '', 0);
+    } catch (error) {
+      if (error instanceof RebuildLimitReached) return null;
+      throw error;
+    }
+  };
+
+  // Seeds the cache with a tree built elsewhere (the index worker) for this exact
+  // node, so the next edit only rebuilds its own branch
+  const adopt = (node: TranslationNode, languages: string[], tree: TreeNode[]) => {
+    const languagesKey = toLanguagesKey(languages);
+
+    const visit = (children: TranslationNode, views: TreeNode[], path: string, depth: number) => {
+      childViews.set(children, { path, depth, languages: languagesKey, view: views });
+      views.forEach(view => {
+        const child = children[view.key];
+        if (!child) return;
+        nodeViews.set(child, { path: view.path, depth, languages: languagesKey, view });
+        if (child.kind === 'namespace' && view.children) {
+          visit(child.children, view.children, view.path, depth + 1);
+        }
+      });
+    };
+
+    visit(node, tree, '', 0);
+  };
+
+  return { build, adopt };
+};
+
+// Same idea for the editor's flat key list: a namespace that didn't change
+// contributes the same array of leaves as last time
+export const createLeafFlattener = () => {
+  const leaves = new WeakMap<TreeNode, TreeNode[]>();
+
+  const collect = (items: TreeNode[]): TreeNode[] =>
+    items.flatMap(item => {
+      if (item.isLeaf) return [item];
+      let cached = leaves.get(item);
+      if (!cached) {
+        cached = collect(item.children ?? []);
+        leaves.set(item, cached);
+      }
+      return cached;
+    });
+
+  return collect;
+};
+
+export interface LeafChanges {
+  upserts: { path: string; values: TranslationValue }[];
+  removals: string[];
+}
+
+// Leaves that differ between two builds of the same project. Subtrees the
+// builder handed back unchanged are skipped without being walked.
+export const diffLeaves = (previous: TreeNode[], next: TreeNode[]): LeafChanges => {
+  const changes: LeafChanges = { upserts: [], removals: [] };
+
+  const eachLeaf = (node: TreeNode, visit: (leaf: TreeNode) => void) => {
+    if (node.isLeaf) visit(node);
+    else node.children?.forEach(child => eachLeaf(child, visit));
+  };
+  const remove = (node: TreeNode) => eachLeaf(node, leaf => changes.removals.push(leaf.path));
+  const upsert = (node: TreeNode) =>
+    eachLeaf(node, leaf => changes.upserts.push({ path: leaf.path, values: leaf.values ?? {} }));
+
+  const compare = (before: TreeNode[], after: TreeNode[]) => {
+    if (before === after) return;
+    const byKey = new Map(before.map(node => [node.key, node]));
+    after.forEach(node => {
+      const old = byKey.get(node.key);
+      byKey.delete(node.key);
+      if (old === node) return;
+      if (old && !old.isLeaf && !node.isLeaf && old.path === node.path) {
+        compare(old.children ?? [], node.children ?? []);
+        return;
+      }
+      if (old) remove(old);
+      upsert(node);
+    });
+    byKey.forEach(remove);
+  };
+
+  compare(previous, next);
+  return changes;
+};
+
+// Leaf paths whose key or any value contains the query, case-insensitively
+export const searchLeaves = (tree: TreeNode[], query: string): Set<string> => {
+  const needle = query.toLowerCase();
+  const matches = new Set<string>();
+  const visit = (node: TreeNode) => {
+    if (!node.isLeaf) {
+      node.children?.forEach(visit);
+      return;
+    }
+    if (
+      node.path.toLowerCase().includes(needle) ||
+      Object.values(node.values ?? {}).some(value => value.toLowerCase().includes(needle))
+    ) {
+      matches.add(node.path);
+    }
+  };
+  tree.forEach(visit);
+  return matches;
+};
@@ -0,0 +1,60 @@
+import axios, { isAxiosError } from "axios";
+
+export type ApiEnvironment = "dev" | "staging" | "prod";
+
+interface ApiEnvironmentConfig {
+  label: string;
+  baseURL: string;
+}
+
+// An unset variable falls back to the default URL; one set to an empty string
+// leaves that environment unconfigured
+export const API_ENVIRONMENTS: Record<ApiEnvironment, ApiEnvironmentConfig> = {
+  dev: {
+    label: "Development",
+    baseURL: import.meta.env.VITE_API_URL_DEV ?? "http://localhost:4000",
+  },
+  staging: {
+    label: "Staging",
+    baseURL: import.meta.env.VITE_API_URL_STAGING ?? "",
+  },
+  prod: {
+    label: "Production",
+    baseURL:
+      import.meta.env.VITE_API_URL_PROD ??
+      "https://translation-manager-be.onrender.com",
+  },
+};
+
+const STORAGE_KEY = "apiEnvironment";
+
+const isApiEnvironment = (value: unknown): value is ApiEnvironment =>
+  typeof value === "string" && value in API_ENVIRONMENTS;
+
+const isConfigured = (value: unknown): value is ApiEnvironment =>
+  isApiEnvironment(value) && Boolean(API_ENVIRONMENTS[value].baseURL);
+
+// A runtime choice wins over the build default, as long as it is still
+// configured; failing both, the first environment that has a URL
+export const getInitialApiEnvironment = (): ApiEnvironment => {
+  if (typeof window !== "undefined") {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (isConfigured(saved)) return saved;
+  }
+  const fallback = import.meta.env.VITE_API_ENV;
+  if (isConfigured(fallback)) return fallback;
+  return (Object.keys(API_ENVIRONMENTS) as ApiEnvironment[]).find(isConfigured) ?? "prod";
+};
+
+export const apiClient = axios.create({
+  baseURL: API_ENVIRONMENTS[getInitialApiEnvironment()].baseURL,
+});
+
+export const setApiEnvironment = (environment: ApiEnvironment) => {
+  apiClient.defaults.baseURL = API_ENVIRONMENTS[environment].baseURL;
+  localStorage.setItem(STORAGE_KEY, environment);
+};
+
+// Network failures and 5xx answers may succeed on a later try; anything else won't
+export const isRetryableError = (error: unknown) =>
+  isAxiosError(error) && (!error.response || error.response.status >= 500);
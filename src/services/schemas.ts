@@ -0,0 +1,56 @@
+import { z } from "zod";
+import type { SaveChangesResponse } from "@/types/translation";
+import type { TranslationDataIssue } from "@/lib/translationPayload";
+import { projectPayloadSchema } from "@/lib/schemas";
+
+export type { ProjectPayload } from "@/lib/schemas";
+
+// Thrown when the backend answers with something the dashboard can't read
+export class ResponseValidationError extends Error {
+  constructor(public endpoint: string, public issues: TranslationDataIssue[]) {
+    super(`Unexpected response from ${endpoint}`);
+    this.name = "ResponseValidationError";
+  }
+}
+
+// Every endpoint wraps its result as { success, data }
+const envelope = <T>(data: z.ZodType<T>) =>
+  z.object({ success: z.boolean().optional(), data });
+
+export const translationsResponseSchema = envelope(projectPayloadSchema);
+
+export const createProjectResponseSchema = envelope(projectPayloadSchema);
+
+export const saveChangesResponseSchema = envelope(
+  z.object({
+    results: z.array(
+      z.object({
+        operationId: z.string(),
+        status: z.enum(["accepted", "rejected"]),
+        reason: z.string().optional(),
+      })
+    ),
+  }) as z.ZodType<SaveChangesResponse>
+);
+
+export const deleteTranslationsResponseSchema = envelope(
+  z.object({ project_name: z.string() })
+);
+
+export const parseResponse = <T>(
+  schema: z.ZodType<T>,
+  body: unknown,
+  endpoint: string
+): T => {
+  const result = schema.safeParse(body);
+  if (!result.success) {
+    throw new ResponseValidationError(
+      endpoint,
+      result.error.issues.map((issue) => ({
+        path: issue.path.join("."),
+        message: issue.message,
+      }))
+    );
+  }
+  return result.data;
+};
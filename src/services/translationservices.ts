@@ -1,11 +1,51 @@
-import axios from "axios";
+import { apiClient } from "./apiClient";
+import {
+  TranslationData,
+  TranslationOperation,
+} from "@/types/translation";
+import { toPayload } from "@/lib/translationPayload";
+import {
+  createProjectResponseSchema,
+  deleteTranslationsResponseSchema,
+  parseResponse,
+  saveChangesResponseSchema,
+  translationsResponseSchema,
+} from "./schemas";
 
-export const getLanguageData = () => {
-  return axios.get(
-    "https://translation-manager-be.onrender.com/translations/"
+// Without a project the backend serves its default one
+const projectParams = (project?: string) => (project ? { project } : undefined);
+
+export const getLanguageData = async (project?: string) => {
+  const response = await apiClient.get("/translations/", { params: projectParams(project) });
+  return parseResponse(translationsResponseSchema, response.data, "GET /translations").data;
+}
+
+// Sends only the pending operations, in order; the server answers with a
+// result per operation id.
+export const saveLanguageData = async (
+  operations: TranslationOperation[],
+  project?: string
+) => {
+  const response = await apiClient.patch(
+    "/translations",
+    { operations },
+    { params: projectParams(project) }
   );
+  return parseResponse(saveChangesResponseSchema, response.data, "PATCH /translations").data;
 }
 
-export const deleteLanguageData=()=>{
-    return axios.delete('https://translation-manager-be.onrender.com/translations')
-}
\ No newline at end of file
+export const createProject = async (data: TranslationData) => {
+  const response = await apiClient.post("/projects", {
+    project_name: data.project,
+    languages: data.languages,
+    data: toPayload(data.translations),
+    metadata: data.metadata,
+    aliases: data.aliases,
+  });
+  return parseResponse(createProjectResponseSchema, response.data, "POST /projects").data;
+}
+
+export const deleteLanguageData = async (project?: string) => {
+  const response = await apiClient.delete('/translations', { params: projectParams(project) });
+  return parseResponse(deleteTranslationsResponseSchema, response.data, "DELETE /translations").data;
+}
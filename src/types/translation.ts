@@ -2,14 +2,49 @@ export type TranslationValue = {
   [languageCode: string]: string;
 };
 
+// A key holding one string per language
+export interface TranslationEntry {
+  kind: 'entry';
+  values: TranslationValue;
+}
+
+// A group of keys; its children can be entries or further namespaces
+export interface TranslationNamespace {
+  kind: 'namespace';
+  children: TranslationNode;
+}
+
+export type TranslationTreeNode = TranslationEntry | TranslationNamespace;
+
+// The contents of a namespace, and of the project root
 export type TranslationNode = {
-  [key: string]: TranslationNode | TranslationValue;
+  [key: string]: TranslationTreeNode;
 };
 
+// Shape the API, storage and JSON backups use: entries are bare language maps,
+// told apart from namespaces only by their contents. Convert with
+// src/lib/translationPayload.ts before working with it.
+export type TranslationPayloadNode = {
+  [key: string]: TranslationPayloadNode | TranslationValue;
+};
+
+// Review status of one language's value, as exchanged with CAT tools
+export type TranslationState = 'new' | 'translated' | 'needs-review' | 'final';
+
+export interface KeyMetadata {
+  note?: string;
+  states?: { [languageCode: string]: TranslationState };
+  // Format-specific extras kept for round trips, e.g. ARB placeholders
+  attributes?: { [name: string]: unknown };
+}
+
 export interface TranslationData {
   project: string;
   languages: string[];
   translations: TranslationNode;
+  metadata?: { [keyPath: string]: KeyMetadata };
+  // Old key paths that still resolve, mapped to where the key or namespace lives now
+  aliases?: { [aliasPath: string]: string };
 }
 
 export interface FlattenedTranslation {
@@ -35,3 +70,99 @@ export interface UnsavedChange {
   originalValue: string;
   newValue: string;
 }
+
+interface BaseOperation {
+  id: string;
+}
+
+export interface SetValueOperation extends BaseOperation, UnsavedChange {
+  type: 'setValue';
+}
+
+export interface AddKeyOperation extends BaseOperation {
+  type: 'addKey';
+  keyPath: string;
+  values: TranslationValue;
+}
+
+// An empty namespace, for keys to be added to later
+export interface AddNamespaceOperation extends BaseOperation {
+  type: 'addNamespace';
+  keyPath: string;
+}
+
+// Removes a key or a whole namespace
+export interface DeleteKeyOperation extends BaseOperation {
+  type: 'deleteKey';
+  keyPath: string;
+}
+
+// Covers both renaming a key in place and moving it under another namespace
+export interface MoveKeyOperation extends BaseOperation {
+  type: 'moveKey';
+  fromPath: string;
+  toPath: string;
+  // Merge into a key or namespace already at toPath instead of failing
+  merge?: boolean;
+  // Keep fromPath working as an alias of toPath
+  keepAlias?: boolean;
+}
+
+// Replaces a key's metadata; null clears it
+export interface SetMetadataOperation extends BaseOperation {
+  type: 'setMetadata';
+  keyPath: string;
+  metadata: KeyMetadata | null;
+}
+
+// Retires an alias; the key it pointed to is left alone
+export interface RemoveAliasOperation extends BaseOperation {
+  type: 'removeAlias';
+  aliasPath: string;
+}
+
+export interface AddLanguageOperation extends BaseOperation {
+  type: 'addLanguage';
+  language: string;
+}
+
+export interface RemoveLanguageOperation extends BaseOperation {
+  type: 'removeLanguage';
+  language: string;
+}
+
+export type TranslationOperation =
+  | SetValueOperation
+  | AddKeyOperation
+  | AddNamespaceOperation
+  | DeleteKeyOperation
+  | MoveKeyOperation
+  | SetMetadataOperation
+  | RemoveAliasOperation
+  | AddLanguageOperation
+  | RemoveLanguageOperation;
+
+export interface SaveOperationResult {
+  operationId: string;
+  status: 'accepted' | 'rejected';
+  reason?: string;
+}
+
+export interface SaveChangesResponse {
+  results: SaveOperationResult[];
+}
+
+export interface FailedOperation {
+  operation: TranslationOperation;
+  reason: string;
+}
+
+export interface SaveOutcome {
+  saved: number;
+  failed: FailedOperation[];
+}
+
+// "local" means the backend couldn't be reached and the project is created on the next save
+export type ImportOutcome =
+  | { status: 'created' | 'local' }
+  | { status: 'failed'; message: string };
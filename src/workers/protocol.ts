@@ -0,0 +1,35 @@
+import type { TranslationNode, TranslationValue, TreeNode } from '@/types/translation';
+
+// Messages between useTranslationIndex and translationIndex.worker.ts
+
+export interface LanguageStats {
+  translated: number;
+  // 0-100
+  completeness: number;
+}
+
+export interface TranslationStats {
+  keyCount: number;
+  languages: { [languageCode: string]: LanguageStats };
+}
+
+export type IndexRequest =
+  // Builds the tree, stats and search index for a whole project from scratch
+  | { type: 'build'; requestId: number; translations: TranslationNode; languages: string[] }
+  // Keeps the index in step with edits whose tree was built on the main thread
+  | {
+      type: 'patch';
+      languages: string[];
+      upserts: { path: string; values: TranslationValue }[];
+      removals: string[];
+    }
+  // Sets the active query; it's re-run after every build and patch
+  | { type: 'search'; query: string };
+
+export type IndexResponse =
+  | { type: 'progress'; requestId: number; processed: number; total: number }
+  | { type: 'built'; requestId: number; tree: TreeNode[] }
+  | { type: 'stats'; stats: TranslationStats }
+  // Paths of the leaves whose key or any value contains the query
+  | { type: 'searchResults'; query: string; matches: string[] }
+  | { type: 'error'; requestId: number; message: string };
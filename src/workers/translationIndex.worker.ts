@@ -0,0 +1,96 @@
+import type { TranslationValue } from '@/types/translation';
+import { listEntries } from '@/lib/translationOperations';
+import { createTreeBuilder } from '@/lib/translationTree';
+import type { IndexRequest, IndexResponse, TranslationStats } from './protocol';
+
+const worker = self as unknown as {
+  postMessage: (message: IndexResponse) => void;
+  onmessage: ((event: MessageEvent<IndexRequest>) => void) | null;
+};
+
+const PROGRESS_STEP = 2000;
+
+interface IndexEntry {
+  values: TranslationValue;
+  // Lower-cased key path and values, separated so a query can't match across them
+  text: string;
+}
+
+let languages: string[] = [];
+const index = new Map<string, IndexEntry>();
+let query = '';
+
+const toIndexEntry = (path: string, values: TranslationValue): IndexEntry => ({
+  values,
+  text: [path, ...Object.values(values)].join('\u0000').toLowerCase()
+});
+
+const postStats = () => {
+  const stats: TranslationStats = { keyCount: index.size, languages: {} };
+  languages.forEach(lang => {
+    let translated = 0;
+    index.forEach(({ values }) => {
+      if (values[lang]?.trim()) translated++;
+    });
+    stats.languages[lang] = {
+      translated,
+      completeness: index.size > 0 ? (translated / index.size) * 100 : 100
+    };
+  });
+  worker.postMessage({ type: 'stats', stats });
+};
+
+const postSearchResults = () => {
+  if (!query.trim()) return;
+  const matches: string[] = [];
+  index.forEach(({ text }, path) => {
+    if (text.includes(query)) matches.push(path);
+  });
+  worker.postMessage({ type: 'searchResults', query, matches });
+};
+
+worker.onmessage = ({ data: request }) => {
+  switch (request.type) {
+    case 'build': {
+      const { requestId } = request;
+      try {
+        languages = request.languages;
+        const entries = listEntries(request.translations);
+        const total = entries.length;
+        worker.postMessage({ type: 'progress', requestId, processed: 0, total });
+
+        const tree = createTreeBuilder().build(request.translations, languages, {
+          onEntryBuilt: built => {
+            if (built % PROGRESS_STEP === 0) {
+              worker.postMessage({ type: 'progress', requestId, processed: built, total });
+            }
+          }
+        });
+        worker.postMessage({ type: 'built', requestId, tree: tree ?? [] });
+
+        index.clear();
+        entries.forEach(({ keyPath, values }) => index.set(keyPath, toIndexEntry(keyPath, values)));
+        postStats();
+        postSearchResults();
+      } catch (error) {
+        worker.postMessage({
+          type: 'error',
+          requestId,
+          message: error instanceof Error ? error.message : String(error)
+        });
+      }
+      break;
+    }
+    case 'patch':
+      languages = request.languages;
+      request.removals.forEach(path => index.delete(path));
+      request.upserts.forEach(({ path, values }) => index.set(path, toIndexEntry(path, values)));
+      postStats();
+      postSearchResults();
+      break;
+    case 'search':
+      query = request.query.toLowerCase();
+      postSearchResults();
+      break;
+  }
+};